@@ -4,5 +4,13 @@ import { defineNitroConfig } from "nitropack/config"
 export default defineNitroConfig({
   compatibilityDate: "latest",
   srcDir: "server",
-  imports: false
+  imports: false,
+  experimental: {
+    // Schema migrations run as tasks (server/tasks/migrations)
+    tasks: true
+  },
+  externals: {
+    // Loaded by sql.js at runtime, so the file tracer cannot see it
+    traceInclude: ["./node_modules/sql.js/dist/sql-wasm.wasm"]
+  }
 });
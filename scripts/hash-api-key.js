@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+
+/**
+ * Hash an API key for the key registry
+ * Usage: node scripts/hash-api-key.js [key]
+ * Generates a new random key when none is given. Prints the raw key (hand it to
+ * the consumer once), the hash to store in API_KEYS_FILE and its log fingerprint.
+ */
+
+const crypto = require('crypto');
+
+const apiKey = process.argv[2] || crypto.randomBytes(32).toString('hex');
+
+// Must match hashApiKey() in server/utils/auth.ts
+const salt = crypto.randomBytes(16).toString('hex');
+const digest = crypto.createHmac('sha256', Buffer.from(salt, 'hex')).update(apiKey).digest('hex');
+const fingerprint = crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 8);
+
+console.log(`Key:         ${apiKey}`);
+console.log(`Hash:        hmac-sha256$${salt}$${digest}`);
+console.log(`Fingerprint: ${fingerprint}`);
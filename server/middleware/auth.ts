@@ -1,54 +1,144 @@
 import { defineEventHandler, getRequestHeader, getRequestURL, createError } from 'h3'
+import { validateApiKey, fingerprintApiKey, principalFromApiKey, isAddressAllowed, type ApiKey } from '~/utils/auth'
+import { isSignedRequest, verifySignedRequest, SignatureError } from '~/utils/requestSigning'
+import { getClientAddress } from '~/utils/ipRules'
+import { isJwtConfigured, verifyBearerToken, BearerTokenError } from '~/utils/jwt'
+import { isMetricsAddressAllowed } from '~/utils/metrics'
 
 /**
- * API Key Authentication Middleware
- * Validates X-API-Key header for all /api routes except /api/health and /api/version
+ * Authentication Middleware
+ * Validates an `Authorization: Bearer` JWT, an HMAC-signed request or the
+ * X-API-Key header for all /api routes except /api/health and /api/version,
+ * and enforces per-key IP allowlists. Prometheus scrapers from
+ * METRICS_ALLOWED_IPS may read /api/metrics without credentials. Either way the caller ends up as a
+ * normalized principal on event.context.principal, which route handlers check
+ * via requireScopes()
  */
 export default defineEventHandler(async (event) => {
   const url = getRequestURL(event)
-  
+
   // Only apply authentication to /api routes
   if (!url.pathname.startsWith('/api')) {
     return
   }
-  
+
   // Skip authentication for monitoring endpoints
   if (url.pathname === '/api/health' ||
       url.pathname.startsWith('/api/health/') ||
       url.pathname === '/api/version') {
     return
   }
-  
-  // Get API key from header
-  const apiKey = getRequestHeader(event, 'x-api-key')
-  const expectedApiKey = process.env.API_KEY
-  
-  // Check if API key is configured
-  if (!expectedApiKey) {
-    console.error('API_KEY environment variable is not configured')
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'Server configuration error'
-    })
+
+  // Resolve the caller's address (via X-Forwarded-For from trusted proxies)
+  // and keep it for the audit log
+  const remoteAddress = getClientAddress(event)
+  event.context.remoteAddress = remoteAddress
+
+  // Prometheus scrapers need no credentials; the route checks the scope otherwise
+  if (url.pathname === '/api/metrics' && isMetricsAddressAllowed(remoteAddress)) {
+    return
   }
-  
-  // Validate API key
-  if (!apiKey) {
-    throw createError({
-      statusCode: 401,
-      statusMessage: 'API key required. Include X-API-Key header.'
-    })
+
+  // Bearer tokens from our internal web apps
+  const authorization = getRequestHeader(event, 'authorization')
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    if (!isJwtConfigured()) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Bearer authentication is not enabled'
+      })
+    }
+
+    try {
+      event.context.principal = await verifyBearerToken(authorization.slice(7).trim())
+    } catch (error: any) {
+      if (!(error instanceof BearerTokenError)) {
+        console.error('Bearer token verification error:', error)
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Server configuration error'
+        })
+      }
+
+      console.warn(`Invalid bearer token from ${remoteAddress}: ${error.code || error.message}`)
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Invalid bearer token'
+      })
+    }
+
+    event.context.authenticated = true
+    return
   }
-  
-  if (apiKey !== expectedApiKey) {
-    console.warn(`Invalid API key attempt from ${event.node.req.socket.remoteAddress}: ${apiKey}`)
+
+  let matchedKey: ApiKey | null
+
+  if (isSignedRequest(event)) {
+    // HMAC-signed requests from server-to-server callers
+    try {
+      matchedKey = await verifySignedRequest(event)
+    } catch (error: any) {
+      if (!(error instanceof SignatureError)) {
+        console.error('Request signature verification error:', error)
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Server configuration error'
+        })
+      }
+
+      console.warn(`Invalid signed request from ${remoteAddress}: ${error.message}`)
+      throw createError({
+        statusCode: 401,
+        statusMessage: `Invalid request signature: ${error.message}`
+      })
+    }
+  } else {
+    // Get API key from header
+    const apiKey = getRequestHeader(event, 'x-api-key')
+
+    // Look up the key in the registry
+    try {
+      matchedKey = await validateApiKey(apiKey)
+    } catch (error) {
+      console.error('API key registry error:', error)
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Server configuration error'
+      })
+    }
+
+    // Validate API key
+    if (!apiKey) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'API key required. Include X-API-Key header.'
+      })
+    }
+
+    if (!matchedKey) {
+      console.warn(`Invalid API key attempt from ${remoteAddress}: fingerprint ${fingerprintApiKey(apiKey)}`)
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Invalid API key'
+      })
+    }
+  }
+
+  // API key is valid, request can proceed
+  event.context.principal = principalFromApiKey(matchedKey)
+
+  // Reject keys used from outside their allowed ranges exactly like an
+  // invalid key, so the response does not confirm the key is real. The
+  // principal and audit reason are set so the audit entry names the key
+  // and the address problem.
+  if (!isAddressAllowed(matchedKey, remoteAddress)) {
+    console.warn(`API key '${matchedKey.name}' used from disallowed address ${remoteAddress}`)
+    event.context.auditReason = `API key '${matchedKey.name}' is not allowed from ${remoteAddress}`
     throw createError({
       statusCode: 401,
       statusMessage: 'Invalid API key'
     })
   }
-  
-  // API key is valid, request can proceed
-  // Optionally store validation info in context for route handlers
+
   event.context.authenticated = true
-})
\ No newline at end of file
+})
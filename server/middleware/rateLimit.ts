@@ -0,0 +1,63 @@
+import { defineEventHandler, getRequestURL, setResponseHeaders, createError } from 'h3'
+import {
+  isRateLimitEnabled,
+  findRouteGroup,
+  resolveRateLimit,
+  getRateLimitStore
+} from '~/utils/rateLimit'
+
+/**
+ * Rate Limiting Middleware
+ * Runs after auth.ts and applies token-bucket limits and in-flight caps for the
+ * authenticated principal, per route group. Unauthenticated routes (health,
+ * version) are not limited.
+ */
+export default defineEventHandler(async (event) => {
+  const principal = event.context.principal
+  if (!principal || !isRateLimitEnabled()) {
+    return
+  }
+
+  const group = findRouteGroup(getRequestURL(event).pathname)
+  if (!group) {
+    return
+  }
+
+  const store = getRateLimitStore()
+  const limit = resolveRateLimit(group, principal.rateLimits)
+  const key = `${principal.type}:${principal.name}:${group.name}`
+
+  // Token bucket
+  const bucket = await store.take(key, limit)
+  setResponseHeaders(event, {
+    'X-RateLimit-Limit': String(limit.capacity),
+    'X-RateLimit-Remaining': String(bucket.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(bucket.resetMs / 1000))
+  })
+
+  if (!bucket.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(bucket.retryAfterMs / 1000))
+    setResponseHeaders(event, { 'Retry-After': String(retryAfter) })
+    throw createError({
+      statusCode: 429,
+      statusMessage: `Rate limit exceeded for ${group.name} routes. Retry after ${retryAfter}s`
+    })
+  }
+
+  // In-flight cap
+  const acquired = await store.acquire(key, limit.maxConcurrent)
+  if (!acquired) {
+    setResponseHeaders(event, { 'Retry-After': '1' })
+    throw createError({
+      statusCode: 429,
+      statusMessage: `Too many concurrent requests for ${group.name} routes (max ${limit.maxConcurrent})`
+    })
+  }
+
+  // Release the slot once the response is done or the client goes away
+  event.node.res.once('close', () => {
+    store.release(key).catch((error) => {
+      console.error('Failed to release rate limit slot:', error)
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { getRequestURL, getQuery, type H3Event, type H3Error } from 'h3'
+import { recordAudit } from '~/utils/audit'
+
+/**
+ * Records the audit entry for a finished request
+ */
+function auditRequest(event: H3Event, outcome: { status: number, resultCount: number | null, reason?: string }): void {
+  const { pathname } = getRequestURL(event)
+
+  // Monitoring endpoints are public or scraped, and not audited
+  if (!pathname.startsWith('/api') ||
+      pathname === '/api/health' ||
+      pathname.startsWith('/api/health/') ||
+      pathname === '/api/version' ||
+      pathname === '/api/metrics') {
+    return
+  }
+
+  const startedAt = event.context.requestStartedAt || Date.now()
+  const principal = event.context.principal
+
+  recordAudit({
+    timestamp: new Date(startedAt).toISOString(),
+    principalType: principal?.type || null,
+    principalName: principal?.name || null,
+    method: event.method,
+    route: pathname,
+    query: getQuery(event),
+    resultCount: outcome.resultCount,
+    status: outcome.status,
+    durationMs: Date.now() - startedAt,
+    remoteAddress: event.context.remoteAddress || event.node.req.socket.remoteAddress || null,
+    reason: outcome.reason
+  })
+}
+
+/**
+ * Audit Plugin
+ * Writes an audit entry for every /api request, including requests rejected
+ * by the auth middleware. Successful responses are recorded once sent; errors
+ * are recorded from the error hook because Nitro's error handler sends the
+ * response itself and afterResponse never fires for them.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  nitroApp.hooks.hook('request', (event) => {
+    event.context.requestStartedAt = Date.now()
+  })
+
+  nitroApp.hooks.hook('afterResponse', (event, response) => {
+    const body = response?.body as any
+
+    auditRequest(event, {
+      status: event.node.res.statusCode,
+      resultCount: event.context.auditResultCount ?? (typeof body?.count === 'number' ? body.count : null)
+    })
+  })
+
+  nitroApp.hooks.hook('error', (error, { event }) => {
+    if (!event) {
+      return
+    }
+
+    const h3Error = error as H3Error
+    auditRequest(event, {
+      status: h3Error.statusCode || 500,
+      resultCount: null,
+      reason: event.context.auditReason || h3Error.statusMessage || error.message
+    })
+  })
+})
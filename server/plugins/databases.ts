@@ -0,0 +1,60 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import consola from 'consola'
+import { DatabaseManager, subscribeSlowQueryLog, subscribeQueryMetrics } from '~/utils/databases'
+import { flushApiKeyUsage } from '~/utils/auth'
+
+/**
+ * Database Plugin
+ * Registers the databases from the config file once at startup, so a bad
+ * configuration stops the server before it takes traffic. With DB_PREWARM=true
+ * every enabled pool is opened and tested in the background. The slow-query
+ * log and query metrics are subscribed to the database events here.
+ *
+ * On SIGTERM/SIGINT Nitro stops accepting connections and waits for in-flight
+ * requests (up to NITRO_SHUTDOWN_TIMEOUT) before running the close hook, which
+ * flushes pending API key usage and closes every pool.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  if (!DatabaseManager.initialize()) {
+    return
+  }
+
+  subscribeSlowQueryLog()
+  subscribeQueryMetrics()
+
+  const db = DatabaseManager.getInstance()
+  const databases = db.getRegisteredDatabases()
+  if (databases.length > 0) {
+    consola.success(`Database manager: registered ${databases.length} database(s): ${databases.join(', ')}`)
+  } else {
+    consola.warn('Database manager: no databases registered')
+  }
+
+  if (process.env.DB_PREWARM === 'true') {
+    db.testAllConnections()
+      .then((results) => {
+        const failed = Object.entries(results)
+          .filter(([name, healthy]) => !healthy && db.isEnabled(name))
+          .map(([name]) => name)
+
+        if (failed.length > 0) {
+          consola.warn(`Database pre-warm: failed for ${failed.join(', ')}`)
+        } else {
+          consola.success(`Database pre-warm: ${db.getConnectedDatabases().length} pool(s) ready`)
+        }
+      })
+      .catch(error => consola.error('Database pre-warm failed:', error))
+  }
+
+  nitroApp.hooks.hook('close', async () => {
+    consola.info('Shutting down: closing database connections')
+
+    try {
+      await flushApiKeyUsage()
+    } catch (error) {
+      consola.error('Failed to record API key usage on shutdown:', error)
+    }
+
+    await db.disconnectAll()
+  })
+})
@@ -0,0 +1,33 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { getRequestURL, type H3Event, type H3Error } from 'h3'
+import { getRouteLabel, recordHttpRequest } from '~/utils/metrics'
+
+/**
+ * Counts a finished /api request for /api/metrics
+ */
+function countRequest(event: H3Event, status: number): void {
+  if (!getRequestURL(event).pathname.startsWith('/api')) {
+    return
+  }
+
+  const startedAt = event.context.requestStartedAt || Date.now()
+  recordHttpRequest(event.method, getRouteLabel(event), status, Date.now() - startedAt)
+}
+
+/**
+ * Metrics Plugin
+ * Records the count and duration of every /api request by route and status.
+ * Like the audit plugin, errors are counted from the error hook because
+ * afterResponse never fires for them.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  nitroApp.hooks.hook('afterResponse', (event) => {
+    countRequest(event, event.node.res.statusCode)
+  })
+
+  nitroApp.hooks.hook('error', (error, { event }) => {
+    if (event) {
+      countRequest(event, (error as H3Error).statusCode || 500)
+    }
+  })
+})
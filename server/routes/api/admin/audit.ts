@@ -0,0 +1,67 @@
+import { eventHandler, getQuery, createError } from 'h3'
+import { z } from 'zod'
+import { requireScopes } from '~/utils/auth'
+import { getAuditSink, type AuditEntry } from '~/utils/audit'
+import type { DatabaseResponse } from '~/types/database'
+
+/**
+ * Query parameters schema
+ */
+const querySchema = z.object({
+  key: z.string().optional(),
+  route: z.string().optional(),
+  from: z.iso.datetime({ offset: true }).or(z.iso.date()).optional(),
+  to: z.iso.datetime({ offset: true }).or(z.iso.date()).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+})
+
+/**
+ * GET /api/admin/audit
+ * Search the request audit log by API key name, route prefix and time range
+ * Newest entries first
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'audit:read')
+
+  if (event.method !== 'GET') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const validation = querySchema.safeParse(getQuery(event))
+  if (!validation.success) {
+    const issue = validation.error.issues[0]
+    throw createError({
+      statusCode: 400,
+      statusMessage: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid query parameters'
+    })
+  }
+
+  const { key, route, from, to, limit } = validation.data
+  const sink = getAuditSink()
+
+  if (!sink) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Audit logging is disabled'
+    })
+  }
+
+  const entries = await sink.search({
+    principalName: key,
+    route,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+    limit
+  })
+
+  const response: DatabaseResponse<AuditEntry[]> = {
+    success: true,
+    data: entries,
+    count: entries.length
+  }
+
+  return response
+})
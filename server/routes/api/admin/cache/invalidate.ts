@@ -0,0 +1,54 @@
+import { eventHandler, readBody, createError } from 'h3'
+import { z } from 'zod'
+import { requireScopes } from '~/utils/auth'
+import { invalidateQueryCache, clearQueryCache } from '~/utils/databases'
+import consola from 'consola'
+import type { DatabaseResponse } from '~/types/database'
+
+/**
+ * Request body: the tags to invalidate, or `all` to empty the cache
+ */
+const bodySchema = z.union([
+  z.object({ tags: z.array(z.string().min(1)).min(1) }),
+  z.object({ all: z.literal(true) })
+])
+
+/**
+ * POST /api/admin/cache/invalidate
+ * Drop cached query results, e.g. `{ "tags": ["client:123"] }` after client
+ * 123 changes outside this API
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'admin')
+
+  if (event.method !== 'POST') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const validation = bodySchema.safeParse(await readBody(event))
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Body must be { "tags": [...] } or { "all": true }'
+    })
+  }
+
+  let removed: number | null = null
+  if ('tags' in validation.data) {
+    removed = await invalidateQueryCache(...validation.data.tags)
+  } else {
+    await clearQueryCache()
+  }
+  consola.info(`Query cache invalidated by '${event.context.principal?.name}'`)
+
+  const response: DatabaseResponse<{ removed: number | null }> = {
+    success: true,
+    data: { removed },
+    count: 1
+  }
+
+  return response
+})
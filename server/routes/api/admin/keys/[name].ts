@@ -0,0 +1,71 @@
+import { eventHandler, getRouterParam, readBody, createError } from 'h3'
+import { requireScopes, getApiKeyRegistry } from '~/utils/auth'
+import { updateApiKeySchema, updateManagedApiKey, describeApiKey } from '~/utils/apiKeyAdmin'
+import consola from 'consola'
+import type { DatabaseResponse } from '~/types/database'
+import type { ApiKeySummary } from '~/types/auth'
+
+/**
+ * GET /api/admin/keys/:name
+ * Get a single API key
+ *
+ * PATCH /api/admin/keys/:name
+ * Change a key's owner, scopes, client/IP restrictions, rate limits or expiry.
+ * Send null to clear an optional field.
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'admin')
+
+  const name = getRouterParam(event, 'name', { decode: true })
+  if (!name) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Key name is required'
+    })
+  }
+
+  if (event.method === 'GET') {
+    const apiKey = (await getApiKeyRegistry()).find(key => key.name === name)
+    if (!apiKey) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: `API key not found: ${name}`
+      })
+    }
+
+    const response: DatabaseResponse<ApiKeySummary> = {
+      success: true,
+      data: describeApiKey(apiKey),
+      count: 1
+    }
+
+    return response
+  }
+
+  if (event.method !== 'PATCH') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const validation = updateApiKeySchema.safeParse(await readBody(event))
+  if (!validation.success) {
+    const issue = validation.error.issues[0]
+    throw createError({
+      statusCode: 400,
+      statusMessage: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid request body'
+    })
+  }
+
+  const apiKey = await updateManagedApiKey(name, validation.data)
+  consola.info(`API key '${name}' updated by '${event.context.principal?.name}'`)
+
+  const response: DatabaseResponse<ApiKeySummary> = {
+    success: true,
+    data: describeApiKey(apiKey),
+    count: 1
+  }
+
+  return response
+})
@@ -0,0 +1,40 @@
+import { eventHandler, getRouterParam, createError } from 'h3'
+import { requireScopes } from '~/utils/auth'
+import { revokeManagedApiKey, describeApiKey } from '~/utils/apiKeyAdmin'
+import consola from 'consola'
+import type { DatabaseResponse } from '~/types/database'
+import type { ApiKeySummary } from '~/types/auth'
+
+/**
+ * POST /api/admin/keys/:name/revoke
+ * Revoke a key immediately; it is kept for its history
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'admin')
+
+  if (event.method !== 'POST') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const name = getRouterParam(event, 'name', { decode: true })
+  if (!name) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Key name is required'
+    })
+  }
+
+  const apiKey = await revokeManagedApiKey(name)
+  consola.info(`API key '${name}' revoked by '${event.context.principal?.name}'`)
+
+  const response: DatabaseResponse<ApiKeySummary> = {
+    success: true,
+    data: describeApiKey(apiKey),
+    count: 1
+  }
+
+  return response
+})
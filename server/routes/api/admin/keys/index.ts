@@ -0,0 +1,58 @@
+import { eventHandler, readBody, setResponseStatus, createError } from 'h3'
+import { requireScopes, getApiKeyRegistry } from '~/utils/auth'
+import { createApiKeySchema, createManagedApiKey, describeApiKey } from '~/utils/apiKeyAdmin'
+import consola from 'consola'
+import type { DatabaseResponse } from '~/types/database'
+import type { ApiKeySummary } from '~/types/auth'
+
+/**
+ * GET /api/admin/keys
+ * List every API key with its status and last-used time
+ *
+ * POST /api/admin/keys
+ * Create a key. The generated secret is returned once and never stored.
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'admin')
+
+  if (event.method === 'GET') {
+    const keys = (await getApiKeyRegistry()).map(describeApiKey)
+
+    const response: DatabaseResponse<ApiKeySummary[]> = {
+      success: true,
+      data: keys,
+      count: keys.length
+    }
+
+    return response
+  }
+
+  if (event.method !== 'POST') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const validation = createApiKeySchema.safeParse(await readBody(event))
+  if (!validation.success) {
+    const issue = validation.error.issues[0]
+    throw createError({
+      statusCode: 400,
+      statusMessage: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid request body'
+    })
+  }
+
+  const { apiKey, secret } = await createManagedApiKey(validation.data)
+  consola.info(`API key '${apiKey.name}' created by '${event.context.principal?.name}'`)
+
+  setResponseStatus(event, 201)
+
+  const response: DatabaseResponse<ApiKeySummary & { secret: string }> = {
+    success: true,
+    data: { ...describeApiKey(apiKey), secret },
+    count: 1
+  }
+
+  return response
+})
@@ -1,9 +1,8 @@
 import { eventHandler } from 'h3'
 import { DatabaseManager } from '~/utils/databases'
 import consola from 'consola'
+import { requireScopes } from '~/utils/auth'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
 /**
@@ -12,6 +11,8 @@ const db = DatabaseManager.getInstance()
  * and return combined results using the new database manager
  */
 export default eventHandler(async (event) => {
+  requireScopes(event, 'diagnostics:read')
+
   const results: any = {
     success: true,
     timestamp: new Date().toISOString(),
@@ -1,8 +1,7 @@
-import { eventHandler } from 'h3'
-import { DatabaseManager } from '~/utils/databases'
+import { eventHandler, setResponseStatus } from 'h3'
+import { DatabaseManager, classifyDatabaseError } from '~/utils/databases'
+import { DATABASE_ERROR_RESPONSES } from '~/utils/databaseErrors'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
 /**
@@ -15,7 +14,8 @@ export default eventHandler(async (event) => {
     timestamp: new Date().toISOString(),
     database: {
       connected: false,
-      message: ''
+      message: '',
+      code: undefined as string | undefined
     }
   }
 
@@ -32,11 +32,10 @@ export default eventHandler(async (event) => {
     health.status = 'unhealthy'
     health.database.connected = false
     health.database.message = error.message || 'Database connection failed'
+    health.database.code = DATABASE_ERROR_RESPONSES[classifyDatabaseError(error)].code
 
     // Set unhealthy status code
-    event.context.response = {
-      statusCode: 503
-    }
+    setResponseStatus(event, 503)
   }
 
   return health
@@ -1,9 +1,11 @@
-import { eventHandler, getRouterParam } from 'h3'
-import { db } from '~/utils/databases'
+import { eventHandler, getRouterParam, setResponseStatus } from 'h3'
+import { db, classifyDatabaseError, getQueryCacheStats } from '~/utils/databases'
+import { DATABASE_ERROR_RESPONSES } from '~/utils/databaseErrors'
 import consola from 'consola'
 
 /**
  * Dynamic health check for individual databases
+ * Includes the database's query cache hit and miss counters.
  */
 export default eventHandler(async (event) => {
   const databaseName = getRouterParam(event, 'database')
@@ -18,6 +20,7 @@ export default eventHandler(async (event) => {
 
   // Check if database is registered
   if (!db.has(databaseName)) {
+    setResponseStatus(event, 404)
     return {
       success: false,
       database: databaseName,
@@ -63,6 +66,14 @@ export default eventHandler(async (event) => {
               serverTime: pgResult.rows[0]?.serverTime
             }
             break
+
+          case 'sqlite':
+            const sqliteResult = await database.query(`SELECT sqlite_version() as version, datetime('now') as serverTime`)
+            serverInfo = {
+              version: sqliteResult.rows[0]?.version,
+              serverTime: sqliteResult.rows[0]?.serverTime
+            }
+            break
         }
       } catch (error) {
         consola.warn(`Could not fetch server info for ${databaseName}:`, error)
@@ -71,6 +82,11 @@ export default eventHandler(async (event) => {
 
     // Get connection stats if available
     const stats = database.getStats ? database.getStats() : null
+    const replicas = await db.checkReplicas(databaseName)
+
+    if (!isHealthy) {
+      setResponseStatus(event, 503)
+    }
 
     return {
       success: isHealthy,
@@ -80,16 +96,22 @@ export default eventHandler(async (event) => {
       connected: db.isConnected(databaseName),
       serverInfo,
       statistics: stats,
+      replicas: replicas.length > 0 ? replicas : undefined,
+      cache: getQueryCacheStats().databases[databaseName] ?? { hits: 0, misses: 0 },
       timestamp: new Date().toISOString()
     }
   } catch (error) {
     consola.error(`Health check error for database '${databaseName}':`, error)
 
+    const { statusCode, code } = DATABASE_ERROR_RESPONSES[classifyDatabaseError(error)]
+    setResponseStatus(event, statusCode)
+
     return {
       success: false,
       database: databaseName,
       status: 'error',
       error: error instanceof Error ? error.message : 'Unknown error',
+      code,
       timestamp: new Date().toISOString()
     }
   }
@@ -1,9 +1,16 @@
 import { eventHandler } from 'h3'
-import { db } from '~/utils/databases'
+import { db, classifyDatabaseError, getQueryCacheStats, getQueryMetrics } from '~/utils/databases'
+import { DATABASE_ERROR_RESPONSES } from '~/utils/databaseErrors'
 import consola from 'consola'
 
 /**
  * Aggregate health check for all databases
+ * Includes each database's circuit breaker state; databases with an open
+ * circuit are reported unhealthy without being contacted. Read replicas are
+ * listed under their database; an unhealthy replica does not make the
+ * database unhealthy, since reads fall back to the primary. Query cache hit
+ * and miss counters are under `cache`, and per-database query metrics (counts,
+ * slow queries, duration histogram) under `queries`.
  */
 export default eventHandler(async (event) => {
   const healthChecks: Record<string, any> = {}
@@ -17,11 +24,14 @@ export default eventHandler(async (event) => {
     try {
       const isHealthy = await db.testConnection(name)
       const isConnected = db.isConnected(name)
+      const replicas = isConnected ? await db.checkReplicas(name) : []
 
       healthChecks[name] = {
         healthy: isHealthy,
         connected: isConnected,
         status: isHealthy ? 'healthy' : 'unhealthy',
+        circuit: db.getCircuitStates()[name],
+        replicas: replicas.length > 0 ? replicas : undefined,
         timestamp: new Date().toISOString()
       }
 
@@ -35,6 +45,8 @@ export default eventHandler(async (event) => {
         connected: false,
         status: 'error',
         error: error instanceof Error ? error.message : 'Unknown error',
+        code: DATABASE_ERROR_RESPONSES[classifyDatabaseError(error)].code,
+        circuit: db.getCircuitStates()[name],
         timestamp: new Date().toISOString()
       }
       overallHealthy = false
@@ -49,11 +61,15 @@ export default eventHandler(async (event) => {
     timestamp: new Date().toISOString(),
     databases: healthChecks,
     statistics: stats,
+    cache: getQueryCacheStats(),
+    queries: getQueryMetrics(),
     summary: {
       total: databases.length,
       healthy: Object.values(healthChecks).filter((h: any) => h.healthy).length,
       unhealthy: Object.values(healthChecks).filter((h: any) => !h.healthy).length,
-      connected: db.getConnectedDatabases().length
+      connected: db.getConnectedDatabases().length,
+      openCircuits: Object.values(db.getCircuitStates()).filter(circuit => circuit.state !== 'closed').length,
+      unhealthyReplicas: Object.values(healthChecks).flatMap((h: any) => h.replicas ?? []).filter((replica: any) => !replica.healthy).length
     }
   }
 })
\ No newline at end of file
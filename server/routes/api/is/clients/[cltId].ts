@@ -1,13 +1,19 @@
 import { eventHandler, getRouterParam, createError } from 'h3'
 import { DatabaseManager } from '~/utils/databases'
 import { transformRecordset } from '~/utils/caseMapper'
+import { requireScopes } from '~/utils/auth'
+import { createDatabaseHttpError } from '~/utils/databaseErrors'
+import { getRequestQueryOptions } from '~/utils/requestSignal'
+import { buildClientQuery, clientCacheOptions } from '~/utils/clientFilters'
 import type { DatabaseResponse, ClientListItem } from '~/types/database'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
+const CACHE_TTL_MS = 5 * 60 * 1000
+
 export default eventHandler(async (event) => {
+  requireScopes(event, 'is:read')
+
   const cltId = getRouterParam(event, 'cltId')
   
   // Validate cltId parameter
@@ -26,21 +32,18 @@ export default eventHandler(async (event) => {
     })
   }
   
-  const sql = `
-    SELECT 
-      cltId,
-      Stamp,
-      ClientNumber,
-      ClientName,
-      BillingCode
-    FROM dbo.cltClients
-    WHERE cltId = @cltId
-  `
-  
   try {
     // Get the default database connection (maps to existing database)
     const intelligentDb = await db.get('default')
-    const result = await intelligentDb.query<ClientListItem>(sql, { cltId: cltIdNum })
+
+    // Out-of-scope clients for client-scoped keys are reported as not found
+    const { sql, params } = buildClientQuery(event, intelligentDb.type, {})
+      .where('cltId', '=', cltIdNum)
+      .build()
+    const result = await intelligentDb.query<ClientListItem>(sql, params, {
+      ...getRequestQueryOptions(event),
+      cache: clientCacheOptions(CACHE_TTL_MS)
+    })
     const transformedData = transformRecordset(result.rows)
     
     if (transformedData.length === 0) {
@@ -62,15 +65,8 @@ export default eventHandler(async (event) => {
     if (error.statusCode) {
       throw error
     }
-    
+
     console.error('Error fetching client:', error)
-    
-    const response: DatabaseResponse<ClientListItem> = {
-      success: false,
-      error: error.message || 'Failed to fetch client',
-      data: undefined
-    }
-    
-    return response
+    throw createDatabaseHttpError(event, error, 'Failed to fetch client')
   }
 })
\ No newline at end of file
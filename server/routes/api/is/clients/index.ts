@@ -1,76 +1,62 @@
 import { eventHandler, getQuery } from 'h3'
 import { DatabaseManager } from '~/utils/databases'
+import { keysetCursor } from '~/utils/databases/queryBuilder'
 import { transformRecordset } from '~/utils/caseMapper'
+import { requireScopes } from '~/utils/auth'
+import { createDatabaseHttpError } from '~/utils/databaseErrors'
+import { getRequestQueryOptions } from '~/utils/requestSignal'
+import { buildClientQuery, clientCacheOptions, CLIENT_SORT_FIELDS } from '~/utils/clientFilters'
+import { parsePagination, applySort, applyPagination } from '~/utils/listQuery'
 import type { DatabaseResponse, ClientListItem } from '~/types/database'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
+// Client lists change when clients are added, so they are cached briefly
+const CACHE_TTL_MS = 60 * 1000
+
 export default eventHandler(async (event) => {
+  requireScopes(event, 'is:read')
+
   const params = getQuery(event)
-  
-  // Build dynamic WHERE clause based on provided filters
-  const conditions: string[] = []
-  const queryParams: Record<string, any> = {}
-  
-  // Check for ClientNumber filter
-  if (params.clientNumber) {
-    conditions.push('ClientNumber = @clientNumber')
-    queryParams.clientNumber = parseFloat(params.clientNumber as string)
-  }
-  
-  // Check for ClientName filter (partial match)
-  if (params.clientName) {
-    conditions.push('ClientName LIKE @clientName')
-    queryParams.clientName = `%${params.clientName}%`
-  }
-  
-  // Check for BillingCode filter (partial match)
-  if (params.billingCode) {
-    conditions.push('BillingCode LIKE @billingCode')
-    queryParams.billingCode = `%${params.billingCode}%`
-  }
-  
-  // Build the SQL query
-  let sql = `
-    SELECT 
-      cltId,
-      Stamp,
-      ClientNumber,
-      ClientName,
-      BillingCode
-    FROM dbo.cltClients
-  `
-  
-  if (conditions.length > 0) {
-    sql += ` WHERE ${conditions.join(' AND ')}`
-  }
-  
-  sql += ' ORDER BY ClientName'
-  
+  const pagination = parsePagination(params, { maxLimit: 5000 })
+
   try {
+    const query = buildClientQuery(event, db.getType('default'), params)
+    applySort(query, params.sort, CLIENT_SORT_FIELDS, 'clientName', 'cltId')
+    applyPagination(query, pagination)
+
     // Get the default database connection (maps to existing database)
     const intelligentDb = await db.get('default')
-    const result = await intelligentDb.query<ClientListItem>(sql, queryParams)
+
+    const { sql, params: queryParams } = query.build()
+    const result = await intelligentDb.query<ClientListItem>(sql, queryParams, {
+      ...getRequestQueryOptions(event),
+      cache: clientCacheOptions(CACHE_TTL_MS)
+    })
     const transformedData = transformRecordset(result.rows)
+    const hasMore = transformedData.length === pagination.limit
+    const lastRow = result.rows[result.rows.length - 1]
     
     const response: DatabaseResponse<ClientListItem> = {
       success: true,
       data: transformedData,
-      count: transformedData.length
+      count: transformedData.length,
+      pagination: pagination.limit === undefined ? undefined : {
+        limit: pagination.limit,
+        offset: pagination.offset,
+        hasMore,
+        nextCursor: hasMore && lastRow ? keysetCursor(lastRow, query.orderColumns) : undefined
+      }
     }
     
     return response
   } catch (error: any) {
-    console.error('Error fetching client list:', error)
-    
-    const response: DatabaseResponse<ClientListItem> = {
-      success: false,
-      error: error.message || 'Failed to fetch client list',
-      data: []
+    // Re-throw if it's already an H3 error (like an invalid filter)
+    if (error.statusCode) {
+      throw error
     }
-    
-    return response
+
+    console.error('Error fetching client list:', error)
+    throw createDatabaseHttpError(event, error, 'Failed to fetch client list')
   }
 })
\ No newline at end of file
@@ -3,12 +3,22 @@ import { z } from 'zod'
 import { DatabaseManager } from '~/utils/databases'
 import { resolveMultipleClientFields } from '~/utils/fieldResolver'
 import { transformRecordset } from '~/utils/caseMapper'
+import { requireScopes } from '~/utils/auth'
+import { createDatabaseHttpError } from '~/utils/databaseErrors'
+import { getRequestQueryOptions } from '~/utils/requestSignal'
+import { selectFrom } from '~/utils/databases/queryBuilder'
+import { buildClientQuery, clientCacheOptions } from '~/utils/clientFilters'
 import type { ClientInfoWithDetails, ProcessedClientInfo, DatabaseResponse } from '~/types/database'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Columns of dbo.cltInfo
+ */
+const INFO_COLUMNS = ['infoId', 'Stamp', 'cltId', 'OrderId', 'Index', 'Info']
+
 /**
  * Query parameters schema with XOR validation
  * Either clientNumber OR clientName must be provided (not both, not neither)
@@ -29,6 +39,8 @@ const querySchema = z.object({
  * Get all cltInfo rows for a specific ClientNumber or ClientName (partial match)
  */
 export default eventHandler(async (event) => {
+  requireScopes(event, 'is:read')
+
   const method = event.method
 
   try {
@@ -53,44 +65,42 @@ export default eventHandler(async (event) => {
 
     const { clientNumber, clientName, processFields } = validation.data
 
+    if (clientNumber && isNaN(parseFloat(clientNumber))) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'ClientNumber must be a valid number'
+      })
+    }
+
     // Get the default database connection (maps to existing database)
     const intelligentDb = await db.get('default')
-    let result
-
-    if (clientNumber) {
-      // Search by ClientNumber (exact match)
-      const clientNumberValue = parseFloat(clientNumber)
-      if (isNaN(clientNumberValue)) {
-        throw createError({
-          statusCode: 400,
-          statusMessage: 'ClientNumber must be a valid number'
-        })
-      }
-
-      result = await intelligentDb.query<ClientInfoWithDetails>(`
-        SELECT ci.*, cc.ClientName, cc.ClientNumber
-        FROM dbo.cltInfo ci
-        INNER JOIN dbo.cltClients cc ON ci.cltId = cc.cltId
-        WHERE cc.ClientNumber = @ClientNumber
-        ORDER BY ci.OrderId
-      `, {
-        ClientNumber: clientNumberValue
-      })
-    } else if (clientName) {
-      // Search by ClientName (partial match using LIKE)
-      result = await intelligentDb.query<ClientInfoWithDetails>(`
-        SELECT ci.*, cc.ClientName, cc.ClientNumber
-        FROM dbo.cltInfo ci
-        INNER JOIN dbo.cltClients cc ON ci.cltId = cc.cltId
-        WHERE cc.ClientName LIKE @ClientName
-        ORDER BY cc.ClientName, ci.OrderId
-      `, {
-        ClientName: `%${clientName}%`
-      })
+    const queryOptions = { ...getRequestQueryOptions(event), cache: clientCacheOptions(CACHE_TTL_MS) }
+
+    // The matching clients: ClientNumber exact or ClientName partial match,
+    // restricted to their own clients for client-scoped keys
+    const clientQuery = buildClientQuery(event, intelligentDb.type, { clientNumber, clientName })
+      .select(['cltId', 'ClientNumber', 'ClientName'])
+      .orderBy('ClientName')
+      .orderBy('cltId')
+      .build()
+    const clients = await intelligentDb.query(clientQuery.sql, clientQuery.params, queryOptions)
+
+    // Their info rows, in OrderId order under each client
+    let rows: any[] = []
+    if (clients.rows.length > 0) {
+      const infoQuery = selectFrom(intelligentDb.type, 'dbo.cltInfo', INFO_COLUMNS)
+        .where('cltId', 'in', clients.rows.map(client => client.cltId))
+        .orderBy('OrderId')
+        .build()
+      const info = await intelligentDb.query(infoQuery.sql, infoQuery.params, queryOptions)
+
+      rows = clients.rows.flatMap(client => info.rows
+        .filter(row => row.cltId === client.cltId)
+        .map(row => ({ ...row, ClientName: client.ClientName, ClientNumber: client.ClientNumber })))
     }
 
     // Transform database results to camelCase for API consistency
-    let responseData = transformRecordset<ClientInfoWithDetails>(result!.rows)
+    let responseData = transformRecordset<ClientInfoWithDetails>(rows)
 
     // Process fields if requested
     if (processFields && responseData.length > 0) {
@@ -137,18 +147,6 @@ export default eventHandler(async (event) => {
 
   } catch (error: any) {
     console.error('Database error:', error)
-    
-    // Return error response
-    const response: DatabaseResponse<any> = {
-      success: false,
-      error: error.message || 'Database operation failed'
-    }
-
-    // Set appropriate status code
-    event.context.response = {
-      statusCode: error.statusCode || 500
-    }
-
-    return response
+    throw createDatabaseHttpError(event, error, 'Failed to fetch client info')
   }
 })
\ No newline at end of file
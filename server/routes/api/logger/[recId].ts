@@ -1,13 +1,17 @@
 import { eventHandler, getRouterParam, createError } from 'h3'
 import { DatabaseManager } from '~/utils/databases'
 import { transformRecordset } from '~/utils/caseMapper'
+import { requireScopes } from '~/utils/auth'
+import { createDatabaseHttpError } from '~/utils/databaseErrors'
+import { getRequestQueryOptions } from '~/utils/requestSignal'
+import { buildCallQuery } from '~/utils/callFilters'
 import type { DatabaseResponse, CallItem } from '~/types/database'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 
 export default eventHandler(async (event) => {
+  requireScopes(event, 'logger:read')
+
   const recId = getRouterParam(event, 'recId')
 
   // Validate recId parameter
@@ -26,44 +30,14 @@ export default eventHandler(async (event) => {
     })
   }
 
-  const sql = `
-    SELECT
-      RecID,
-      CallNumber,
-      CallID,
-      CallTime,
-      CallDuration,
-      StationNumber,
-      Agent_old,
-      AgentInitials,
-      CallerID,
-      ClientName,
-      CallerName,
-      BillingNumber,
-      ClientNumber,
-      CallProgress,
-      Archived,
-      Drive,
-      CombinedDuration,
-      Emailed,
-      EndingClientNumber,
-      QAScore,
-      Location,
-      EndingClientName,
-      EndingBillingNumber,
-      FinalClientNumber,
-      FinalClientName,
-      FinalBillingNumber,
-      EndTime,
-      Agent
-    FROM dbo.Calls
-    WHERE RecID = @recId
-  `
-
   try {
     // Get the logger database connection directly
     const loggerDb = await db.get('logger')
-    const result = await loggerDb.query<CallItem>(sql, { recId: recIdNum })
+
+    // Out-of-scope calls for client-scoped keys are reported as not found
+    const query = await buildCallQuery(event, loggerDb.type, {})
+    const { sql, params } = query.where('RecID', '=', recIdNum).build()
+    const result = await loggerDb.query<CallItem>(sql, params, getRequestQueryOptions(event))
     const transformedData = transformRecordset(result.rows)
 
     if (transformedData.length === 0) {
@@ -87,13 +61,6 @@ export default eventHandler(async (event) => {
     }
 
     console.error('Error fetching call:', error)
-
-    const response: DatabaseResponse<CallItem> = {
-      success: false,
-      error: error.message || 'Failed to fetch call',
-      data: undefined
-    }
-
-    return response
+    throw createDatabaseHttpError(event, error, 'Failed to fetch call')
   }
 })
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { eventHandler, getQuery, createError, setResponseHeader } from 'h3'
+import { DatabaseManager } from '~/utils/databases'
+import { transformObjectKeys } from '~/utils/caseMapper'
+import { requireScopes } from '~/utils/auth'
+import { createDatabaseHttpError } from '~/utils/databaseErrors'
+import { getRequestQueryOptions } from '~/utils/requestSignal'
+import { buildCallQuery, CALL_SORT_FIELDS } from '~/utils/callFilters'
+import { applySort } from '~/utils/listQuery'
+import { EXPORT_FORMATS, isExportFormat, serializeRows, startRows } from '~/utils/rowExport'
+import type { CallItem } from '~/types/database'
+
+const db = DatabaseManager.getInstance()
+
+/**
+ * GET /api/logger/export
+ * Streams every call matching the same filters and sort as /api/logger, as NDJSON
+ * (default) or CSV (`format=csv`). Rows are read from the database only as
+ * fast as the client downloads them, and the query is cancelled if the client
+ * disconnects.
+ */
+export default eventHandler(async (event) => {
+  requireScopes(event, 'logger:read')
+
+  if (event.method !== 'GET') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  const params = getQuery(event)
+  const format = params.format ?? 'ndjson'
+
+  if (!isExportFormat(format)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Invalid format: '${format}'. Use ${Object.keys(EXPORT_FORMATS).join(' or ')}`
+    })
+  }
+
+  let rows: AsyncGenerator<CallItem>
+  try {
+    const query = await buildCallQuery(event, db.getType('logger'), params)
+    applySort(query, params.sort, CALL_SORT_FIELDS, '-recId')
+
+    const loggerDb = await db.get('logger')
+    const { sql, params: queryParams } = query.build()
+    rows = await startRows(loggerDb.stream<CallItem>(sql, queryParams, getRequestQueryOptions(event)))
+  } catch (error: any) {
+    // Re-throw if it's already an H3 error (like an invalid filter)
+    if (error.statusCode) {
+      throw error
+    }
+
+    console.error('Error exporting calls:', error)
+    throw createDatabaseHttpError(event, error, 'Failed to export calls')
+  }
+
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  const filename = `calls-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+  setResponseHeader(event, 'Content-Type', contentType)
+  setResponseHeader(event, 'Content-Disposition', `attachment; filename="${filename}"`)
+
+  // Rows are counted as they are sent, for the audit log; an export cut
+  // short records the rows it got through
+  let sent = 0
+  event.context.auditResultCount = sent
+
+  async function* transformedRows() {
+    for await (const row of rows) {
+      yield transformObjectKeys(row)
+      event.context.auditResultCount = ++sent
+    }
+  }
+
+  try {
+    await pipeline(Readable.from(serializeRows(transformedRows(), format)), event.node.res)
+  } catch (error: any) {
+    // The status has already been sent; the response is cut short so the
+    // client sees an incomplete download rather than a truncated file
+    if (!event.node.res.destroyed) {
+      event.node.res.destroy()
+    }
+    console.error('Call export stopped:', error)
+  }
+})
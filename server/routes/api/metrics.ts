@@ -0,0 +1,26 @@
+import { eventHandler, setResponseHeader, createError } from 'h3'
+import { requireScopes } from '~/utils/auth'
+import { isMetricsAddressAllowed, renderMetrics } from '~/utils/metrics'
+import { PROMETHEUS_CONTENT_TYPE } from '~/utils/prometheus'
+
+/**
+ * GET /api/metrics
+ * Prometheus metrics: HTTP requests, database queries, pools, circuit breakers,
+ * database health, the query cache and build info. Scrapers from
+ * METRICS_ALLOWED_IPS need no credentials; anyone else needs `metrics:read`.
+ */
+export default eventHandler(async (event) => {
+  if (!isMetricsAddressAllowed(event.context.remoteAddress)) {
+    requireScopes(event, 'metrics:read')
+  }
+
+  if (event.method !== 'GET') {
+    throw createError({
+      statusCode: 405,
+      statusMessage: 'Method not allowed'
+    })
+  }
+
+  setResponseHeader(event, 'content-type', PROMETHEUS_CONTENT_TYPE)
+  return await renderMetrics()
+})
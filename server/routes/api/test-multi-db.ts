@@ -1,11 +1,14 @@
 import { eventHandler } from 'h3'
 import { db } from '~/utils/databases'
 import consola from 'consola'
+import { requireScopes } from '~/utils/auth'
 
 /**
  * Test endpoint demonstrating multi-database usage
  */
 export default eventHandler(async (event) => {
+  requireScopes(event, 'diagnostics:read')
+
   const results: Record<string, any> = {
     success: true,
     timestamp: new Date().toISOString(),
@@ -45,6 +48,9 @@ export default eventHandler(async (event) => {
             case 'postgresql':
               queryResult = await database.query('SELECT current_database() as database_name, current_user')
               break
+            case 'sqlite':
+              queryResult = await database.query('SELECT :name as database_name, sqlite_version() as version', { name })
+              break
           }
         } catch (queryError) {
           consola.warn(`Query failed for ${name}:`, queryError)
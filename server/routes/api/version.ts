@@ -1,14 +1,19 @@
 import { eventHandler } from 'h3'
 import { getVersionInfo } from '../../utils/version'
+import { getSchemaVersions } from '../../utils/databases'
 
 /**
  * GET /api/version
- * Returns version information including package version and build timestamp
+ * Returns version information including package version and build timestamp,
+ * and the applied schema migration version of each database that has migrations
  * This endpoint does not require authentication for easier monitoring
  */
 export default eventHandler(async (event) => {
   try {
-    return getVersionInfo()
+    return {
+      ...getVersionInfo(),
+      schema: await getSchemaVersions()
+    }
   } catch (error: any) {
     console.error('Error getting version info:', error)
     
@@ -0,0 +1,26 @@
+import { defineTask } from 'nitropack/runtime'
+import { migrateDown } from '~/utils/databases'
+
+/**
+ * Roll back the latest migrations of one database
+ * Payload: `database` (required) and `steps` (default 1)
+ * @example npx nitro task run migrations:down --payload '{"database":"intelligent","steps":1}'
+ */
+export default defineTask({
+  meta: {
+    name: 'migrations:down',
+    description: 'Roll back the latest schema migrations of a database'
+  },
+  async run({ payload }) {
+    if (!payload.database) {
+      throw new Error('migrations:down requires a database in the payload')
+    }
+
+    const steps = payload.steps === undefined ? 1 : Number(payload.steps)
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('steps must be a positive integer')
+    }
+
+    return { result: await migrateDown(String(payload.database), steps) }
+  }
+})
@@ -0,0 +1,23 @@
+import { defineTask } from 'nitropack/runtime'
+import { getMigrationDatabases, getMigrationStatus, type MigrationStatus } from '~/utils/databases'
+
+/**
+ * Report applied, pending, changed and missing migrations
+ * Payload: `database` to check one database (default: every database with migrations)
+ */
+export default defineTask({
+  meta: {
+    name: 'migrations:status',
+    description: 'Show the schema migration status of each database'
+  },
+  async run({ payload }) {
+    const databases = payload.database ? [String(payload.database)] : getMigrationDatabases()
+    const statuses: MigrationStatus[] = []
+
+    for (const database of databases) {
+      statuses.push(await getMigrationStatus(database))
+    }
+
+    return { result: statuses }
+  }
+})
@@ -0,0 +1,24 @@
+import { defineTask } from 'nitropack/runtime'
+import { getMigrationDatabases, migrateUp } from '~/utils/databases'
+
+/**
+ * Apply pending migrations
+ * Payload: `database` to migrate one database (default: every database with migrations)
+ * @example npx nitro task run migrations:up --payload '{"database":"intelligent"}'
+ */
+export default defineTask({
+  meta: {
+    name: 'migrations:up',
+    description: 'Apply pending schema migrations'
+  },
+  async run({ payload }) {
+    const databases = payload.database ? [String(payload.database)] : getMigrationDatabases()
+    const applied: Record<string, string[]> = {}
+
+    for (const database of databases) {
+      applied[database] = await migrateUp(database)
+    }
+
+    return { result: applied }
+  }
+})
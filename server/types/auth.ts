@@ -0,0 +1,51 @@
+/**
+ * Authentication type definitions
+ */
+
+import type { ClientScope } from '../utils/clientScope'
+import type { RateLimitOverrides } from '../utils/rateLimit'
+
+// How the caller authenticated
+export type PrincipalType = 'apiKey' | 'jwt'
+
+// Normalized caller identity stored on event.context.principal by the auth middleware
+export interface Principal {
+  type: PrincipalType
+  name: string          // API key name, or the JWT subject
+  owner: string         // API key owner, or the JWT issuer
+  scopes: string[]
+  clients?: ClientScope // Client allowlist; undefined means every client
+  rateLimits?: RateLimitOverrides // Per-group rate limit overrides
+}
+
+// Lifecycle state of an API key
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked'
+
+// API key as listed by the admin API; secret hashes are never returned
+export interface ApiKeySummary {
+  name: string
+  owner: string
+  scopes: string[]
+  clients?: ClientScope
+  rateLimits?: RateLimitOverrides
+  allowedIps?: string[]
+  signingSecretEnv?: string
+  status: ApiKeyStatus
+  readOnly: boolean              // Defined in the environment, not the key store
+  secrets: { expiresAt?: string }[]
+  createdAt?: string
+  lastUsedAt?: string
+  expiresAt?: string
+  revokedAt?: string
+}
+
+declare module 'h3' {
+  interface H3EventContext {
+    authenticated?: boolean
+    principal?: Principal
+    remoteAddress?: string     // Caller address as seen by the auth middleware
+    requestStartedAt?: number  // Epoch ms, set by the audit plugin
+    auditReason?: string       // Audit detail that is kept out of the error response
+    auditResultCount?: number  // Rows sent by routes that stream their response instead of returning a body
+  }
+}
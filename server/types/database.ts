@@ -28,6 +28,8 @@ export interface PaginationInfo {
   offset: number
   total?: number
   hasMore: boolean
+  // Pass as `cursor` to fetch the next page by keyset instead of offset
+  nextCursor?: string
   note?: string
 }
 
@@ -0,0 +1,182 @@
+/**
+ * API Key Administration
+ * Create, update and revoke keys in the key store at runtime. Every change
+ * reloads the registry so it takes effect without a restart.
+ */
+
+import { createError } from 'h3'
+import { z } from 'zod'
+import {
+  apiKeySchema,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyActive,
+  isReadOnlyApiKey,
+  getApiKeyLastUsed,
+  reloadApiKeys,
+  type ApiKey
+} from './auth'
+import { getApiKeyStore, type ApiKeyStore } from './apiKeyStore'
+import type { ApiKeySummary } from '../types/auth'
+
+const { shape } = apiKeySchema
+
+/**
+ * Request body for creating a key
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9._-]{1,100}$/, 'Use up to 100 letters, digits, dots, dashes or underscores'),
+  owner: shape.owner,
+  scopes: shape.scopes,
+  clients: shape.clients,
+  rateLimits: shape.rateLimits,
+  allowedIps: shape.allowedIps,
+  signingSecretEnv: shape.signingSecretEnv,
+  expiresAt: shape.expiresAt
+}).strict()
+
+/**
+ * Request body for updating a key
+ * Omitted fields are left unchanged; null clears an optional field.
+ */
+export const updateApiKeySchema = z.object({
+  owner: shape.owner.optional(),
+  scopes: z.array(z.string().min(1)).optional(),
+  clients: shape.clients.nullable(),
+  rateLimits: shape.rateLimits.nullable(),
+  allowedIps: shape.allowedIps.nullable(),
+  signingSecretEnv: shape.signingSecretEnv.nullable(),
+  expiresAt: shape.expiresAt.nullable()
+}).strict()
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>
+export type UpdateApiKeyRequest = z.infer<typeof updateApiKeySchema>
+
+/**
+ * Builds the admin view of a key, without secret hashes
+ */
+export function describeApiKey(apiKey: ApiKey): ApiKeySummary {
+  const now = new Date()
+
+  return {
+    name: apiKey.name,
+    owner: apiKey.owner,
+    scopes: apiKey.scopes,
+    clients: apiKey.clients,
+    rateLimits: apiKey.rateLimits,
+    allowedIps: apiKey.allowedIps,
+    signingSecretEnv: apiKey.signingSecretEnv,
+    status: apiKey.revokedAt ? 'revoked' : isApiKeyActive(apiKey, now) ? 'active' : 'expired',
+    readOnly: isReadOnlyApiKey(apiKey),
+    secrets: apiKey.secrets.map(secret => ({ expiresAt: secret.expiresAt })),
+    createdAt: apiKey.createdAt,
+    lastUsedAt: getApiKeyLastUsed(apiKey),
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt
+  }
+}
+
+/**
+ * Get the key store, or fail if keys are only defined in the environment
+ */
+function requireStore(): ApiKeyStore {
+  const store = getApiKeyStore()
+  if (!store) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: 'API keys are not managed at runtime. Set API_KEYS_FILE or API_KEYS_STORE=database'
+    })
+  }
+  return store
+}
+
+/**
+ * Finds a key that the admin API may change
+ * @throws 404 if the key does not exist, 409 if it is defined in the environment
+ */
+async function findManagedApiKey(name: string): Promise<ApiKey> {
+  const apiKey = (await reloadApiKeys({ fresh: true })).find(key => key.name === name)
+
+  if (!apiKey) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `API key not found: ${name}`
+    })
+  }
+
+  if (isReadOnlyApiKey(apiKey)) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `API key '${name}' is defined in the environment and cannot be changed here`
+    })
+  }
+
+  return apiKey
+}
+
+/**
+ * Creates a key with a freshly generated secret
+ * @returns The stored key and the raw secret, which is not kept anywhere
+ */
+export async function createManagedApiKey(request: CreateApiKeyRequest): Promise<{ apiKey: ApiKey, secret: string }> {
+  const store = requireStore()
+
+  if ((await reloadApiKeys({ fresh: true })).some(key => key.name === request.name)) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `API key already exists: ${request.name}`
+    })
+  }
+
+  const secret = generateApiKey()
+  const apiKey: ApiKey = {
+    ...request,
+    secrets: [{ hash: hashApiKey(secret) }],
+    createdAt: new Date().toISOString()
+  }
+
+  await store.save(apiKey)
+  await reloadApiKeys({ fresh: true })
+
+  return { apiKey, secret }
+}
+
+/**
+ * Updates a key's owner, scopes, restrictions or expiry
+ */
+export async function updateManagedApiKey(name: string, changes: UpdateApiKeyRequest): Promise<ApiKey> {
+  const store = requireStore()
+  const apiKey: ApiKey = { ...await findManagedApiKey(name) }
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete (apiKey as Record<string, unknown>)[field]
+    } else if (value !== undefined) {
+      (apiKey as Record<string, unknown>)[field] = value
+    }
+  }
+
+  await store.save(apiKey)
+  await reloadApiKeys({ fresh: true })
+
+  return apiKey
+}
+
+/**
+ * Revokes a key immediately
+ * Revoked keys stay in the store so their history remains visible.
+ */
+export async function revokeManagedApiKey(name: string): Promise<ApiKey> {
+  const store = requireStore()
+  const apiKey = await findManagedApiKey(name)
+
+  if (apiKey.revokedAt) {
+    return apiKey
+  }
+
+  const revoked: ApiKey = { ...apiKey, revokedAt: new Date().toISOString() }
+  await store.save(revoked)
+  await reloadApiKeys({ fresh: true })
+
+  return revoked
+}
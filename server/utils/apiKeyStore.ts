@@ -0,0 +1,189 @@
+/**
+ * API Key Store
+ * Persistence for API keys managed at runtime through /api/admin/keys.
+ * Keys live in a local JSON file (API_KEYS_FILE) or in a table in one of the
+ * registered databases (API_KEYS_STORE=database).
+ */
+
+import { readFile, writeFile, rename } from 'fs/promises'
+import { existsSync } from 'fs'
+import { DatabaseManager, DatabaseType } from './databases'
+import type { ApiKey } from './auth'
+
+const db = DatabaseManager.getInstance()
+
+/**
+ * Storage backend for API key records
+ */
+export interface ApiKeyStore {
+  /**
+   * Load every stored key record, unvalidated
+   * The registry validates records so a bad entry is reported the same way
+   * wherever it came from.
+   */
+  load(): Promise<unknown[]>
+
+  /**
+   * Create or replace a key record
+   */
+  save(key: ApiKey): Promise<void>
+
+  /**
+   * Persist last-used timestamps, keyed by key name
+   */
+  recordUsage(usage: Map<string, string>): Promise<void>
+}
+
+/**
+ * JSON file store
+ * Writes go to a temporary file that is renamed into place, so a crash
+ * mid-write never leaves a truncated registry.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  // Serializes writes so concurrent admin calls do not overwrite each other
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<unknown[]> {
+    if (!existsSync(this.path)) {
+      throw new Error(`API_KEYS_FILE not found: ${this.path}`)
+    }
+
+    const records = JSON.parse(await readFile(this.path, 'utf-8'))
+    if (!Array.isArray(records)) {
+      throw new Error(`API_KEYS_FILE must hold a JSON array: ${this.path}`)
+    }
+    return records
+  }
+
+  async save(key: ApiKey): Promise<void> {
+    await this.update(keys => {
+      const index = keys.findIndex(existing => existing.name === key.name)
+      if (index === -1) {
+        keys.push(key)
+      } else {
+        keys[index] = key
+      }
+    })
+  }
+
+  async recordUsage(usage: Map<string, string>): Promise<void> {
+    await this.update(keys => {
+      for (const key of keys) {
+        const lastUsedAt = usage.get(key.name)
+        if (lastUsedAt) {
+          key.lastUsedAt = lastUsedAt
+        }
+      }
+    })
+  }
+
+  private update(change: (keys: ApiKey[]) => void): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const keys = await this.load() as ApiKey[]
+      change(keys)
+
+      const tempPath = `${this.path}.tmp`
+      await writeFile(tempPath, JSON.stringify(keys, null, 2) + '\n', 'utf-8')
+      await rename(tempPath, this.path)
+    })
+
+    this.writeQueue = run.catch(() => {})
+    return run
+  }
+}
+
+/**
+ * Database table store
+ * Expects the table from sql/api-keys-table.sql. Each row holds the key
+ * record as JSON; last_used_at is kept in its own column so usage updates
+ * don't rewrite the definition.
+ */
+export class DatabaseApiKeyStore implements ApiKeyStore {
+  constructor(
+    private readonly database: string,
+    private readonly table: string
+  ) {}
+
+  async load(): Promise<unknown[]> {
+    const connection = await db.get(this.database)
+    const result = await connection.query<{ name: string, definition: string, last_used_at: Date | null }>(
+      `SELECT name, definition, last_used_at FROM ${this.table}`
+    )
+
+    return result.rows.map(row => ({
+      ...JSON.parse(row.definition),
+      name: row.name,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : undefined
+    }))
+  }
+
+  async save(key: ApiKey): Promise<void> {
+    const connection = await db.get(this.database)
+    const p = connection.type === DatabaseType.MSSQL ? '@' : ':'
+    const { lastUsedAt: _lastUsedAt, ...definition } = key
+
+    const existing = await connection.query(
+      `SELECT name FROM ${this.table} WHERE name = ${p}name`,
+      { name: key.name }
+    )
+
+    const params = {
+      name: key.name,
+      definition: JSON.stringify(definition),
+      updatedAt: new Date()
+    }
+
+    if (existing.rows.length > 0) {
+      await connection.query(
+        `UPDATE ${this.table} SET definition = ${p}definition, updated_at = ${p}updatedAt WHERE name = ${p}name`,
+        params
+      )
+    } else {
+      await connection.query(
+        `INSERT INTO ${this.table} (name, definition, updated_at) VALUES (${p}name, ${p}definition, ${p}updatedAt)`,
+        params
+      )
+    }
+  }
+
+  async recordUsage(usage: Map<string, string>): Promise<void> {
+    const connection = await db.get(this.database)
+    const p = connection.type === DatabaseType.MSSQL ? '@' : ':'
+
+    for (const [name, lastUsedAt] of usage.entries()) {
+      await connection.query(
+        `UPDATE ${this.table} SET last_used_at = ${p}lastUsedAt WHERE name = ${p}name`,
+        { name, lastUsedAt: new Date(lastUsedAt) }
+      )
+    }
+  }
+}
+
+let store: ApiKeyStore | null | undefined
+
+/**
+ * Get the configured key store
+ * API_KEYS_STORE=database uses API_KEYS_DATABASE/API_KEYS_TABLE; otherwise
+ * API_KEYS_FILE is used when set. Returns null when keys only come from the
+ * environment, in which case they cannot be managed at runtime.
+ */
+export function getApiKeyStore(): ApiKeyStore | null {
+  if (store !== undefined) {
+    return store
+  }
+
+  if (process.env.API_KEYS_STORE === 'database') {
+    if (!process.env.API_KEYS_DATABASE) {
+      throw new Error('API_KEYS_STORE=database requires API_KEYS_DATABASE')
+    }
+    store = new DatabaseApiKeyStore(process.env.API_KEYS_DATABASE, process.env.API_KEYS_TABLE || 'dbo.api_keys')
+  } else if (process.env.API_KEYS_FILE) {
+    store = new FileApiKeyStore(process.env.API_KEYS_FILE)
+  } else {
+    store = null
+  }
+
+  return store
+}
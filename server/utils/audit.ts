@@ -0,0 +1,262 @@
+/**
+ * Request Audit Log
+ * Records which principal read which records, for compliance. Entries go to an
+ * append-only JSONL file or to a table in one of the registered databases.
+ */
+
+import { appendFile, mkdir } from 'fs/promises'
+import { createReadStream, existsSync } from 'fs'
+import { dirname } from 'path'
+import { createInterface } from 'readline'
+import consola from 'consola'
+import { DatabaseManager, DatabaseType } from './databases'
+
+const db = DatabaseManager.getInstance()
+
+/**
+ * A single audit record
+ */
+export interface AuditEntry {
+  timestamp: string
+  principalType: string | null   // 'apiKey' | 'jwt', null when authentication failed
+  principalName: string | null   // API key name or JWT subject
+  method: string
+  route: string
+  query: Record<string, any>
+  resultCount: number | null
+  status: number
+  durationMs: number
+  remoteAddress: string | null
+  reason?: string                // Why the request was rejected, if it was
+}
+
+/**
+ * Audit search filters
+ */
+export interface AuditSearch {
+  principalName?: string
+  route?: string                 // Prefix match
+  from?: Date
+  to?: Date
+  limit: number
+}
+
+/**
+ * Storage backend for audit entries
+ */
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>
+  search(filter: AuditSearch): Promise<AuditEntry[]>
+}
+
+/**
+ * Checks whether an entry matches a search filter
+ */
+function matchesSearch(entry: AuditEntry, filter: AuditSearch): boolean {
+  if (filter.principalName && entry.principalName !== filter.principalName) {
+    return false
+  }
+  if (filter.route && !entry.route.startsWith(filter.route)) {
+    return false
+  }
+
+  const timestamp = new Date(entry.timestamp)
+  if (filter.from && timestamp < filter.from) {
+    return false
+  }
+  if (filter.to && timestamp > filter.to) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Append-only JSONL file sink
+ */
+export class FileAuditSink implements AuditSink {
+  private directoryReady = false
+
+  constructor(private readonly path: string) {}
+
+  async write(entry: AuditEntry): Promise<void> {
+    if (!this.directoryReady) {
+      await mkdir(dirname(this.path), { recursive: true })
+      this.directoryReady = true
+    }
+    await appendFile(this.path, JSON.stringify(entry) + '\n', 'utf-8')
+  }
+
+  async search(filter: AuditSearch): Promise<AuditEntry[]> {
+    if (!existsSync(this.path)) {
+      return []
+    }
+
+    // Stream the file so large logs are not read into memory at once;
+    // keep only the newest `limit` matches
+    const matches: AuditEntry[] = []
+    const lines = createInterface({ input: createReadStream(this.path, 'utf-8'), crlfDelay: Infinity })
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue
+      }
+
+      try {
+        const entry = JSON.parse(line) as AuditEntry
+        if (matchesSearch(entry, filter)) {
+          matches.push(entry)
+          if (matches.length > filter.limit) {
+            matches.shift()
+          }
+        }
+      } catch {
+        // Skip partially written or corrupt lines
+      }
+    }
+
+    return matches.reverse()
+  }
+}
+
+/**
+ * Database table sink
+ * Expects the table from sql/audit-log-table.sql in the chosen database.
+ */
+export class DatabaseAuditSink implements AuditSink {
+  constructor(
+    private readonly database: string,
+    private readonly table: string
+  ) {}
+
+  async write(entry: AuditEntry): Promise<void> {
+    const connection = await db.get(this.database)
+    const p = connection.type === DatabaseType.MSSQL ? '@' : ':'
+
+    await connection.query(`
+      INSERT INTO ${this.table}
+        (stamp, principal_type, principal_name, method, route, query_params, result_count, status, duration_ms, remote_address, reason)
+      VALUES
+        (${p}stamp, ${p}principalType, ${p}principalName, ${p}method, ${p}route, ${p}queryParams, ${p}resultCount, ${p}status, ${p}durationMs, ${p}remoteAddress, ${p}reason)
+    `, {
+      stamp: new Date(entry.timestamp),
+      principalType: entry.principalType,
+      principalName: entry.principalName,
+      method: entry.method,
+      route: entry.route,
+      queryParams: JSON.stringify(entry.query),
+      resultCount: entry.resultCount,
+      status: entry.status,
+      durationMs: entry.durationMs,
+      remoteAddress: entry.remoteAddress,
+      reason: entry.reason || null
+    })
+  }
+
+  async search(filter: AuditSearch): Promise<AuditEntry[]> {
+    const connection = await db.get(this.database)
+    const p = connection.type === DatabaseType.MSSQL ? '@' : ':'
+
+    const conditions: string[] = []
+    const params: Record<string, any> = { limit: filter.limit }
+
+    if (filter.principalName) {
+      conditions.push(`principal_name = ${p}principalName`)
+      params.principalName = filter.principalName
+    }
+    if (filter.route) {
+      conditions.push(`route LIKE ${p}route`)
+      params.route = `${filter.route}%`
+    }
+    if (filter.from) {
+      conditions.push(`stamp >= ${p}from`)
+      params.from = filter.from
+    }
+    if (filter.to) {
+      conditions.push(`stamp <= ${p}to`)
+      params.to = filter.to
+    }
+
+    let sql = `SELECT * FROM ${this.table}`
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`
+    }
+    sql += ' ORDER BY stamp DESC'
+    sql += connection.type === DatabaseType.MSSQL
+      ? ' OFFSET 0 ROWS FETCH NEXT @limit ROWS ONLY'
+      : ' LIMIT :limit'
+
+    const result = await connection.query(sql, params)
+
+    return result.rows.map((row: any) => ({
+      timestamp: new Date(row.stamp).toISOString(),
+      principalType: row.principal_type,
+      principalName: row.principal_name,
+      method: row.method,
+      route: row.route,
+      query: row.query_params ? JSON.parse(row.query_params) : {},
+      resultCount: row.result_count,
+      status: row.status,
+      durationMs: row.duration_ms,
+      remoteAddress: row.remote_address,
+      reason: row.reason || undefined
+    }))
+  }
+}
+
+let sink: AuditSink | null | undefined
+
+/**
+ * Get the configured audit sink
+ * AUDIT_SINK selects `file` (default, AUDIT_LOG_FILE), `database`
+ * (AUDIT_DATABASE + AUDIT_TABLE) or `none`.
+ */
+export function getAuditSink(): AuditSink | null {
+  if (sink !== undefined) {
+    return sink
+  }
+
+  switch (process.env.AUDIT_SINK || 'file') {
+    case 'none':
+      sink = null
+      break
+
+    case 'database':
+      if (!process.env.AUDIT_DATABASE) {
+        throw new Error('AUDIT_SINK=database requires AUDIT_DATABASE')
+      }
+      sink = new DatabaseAuditSink(process.env.AUDIT_DATABASE, process.env.AUDIT_TABLE || 'dbo.api_audit_log')
+      break
+
+    case 'file':
+      sink = new FileAuditSink(process.env.AUDIT_LOG_FILE || '.data/audit/audit.jsonl')
+      break
+
+    default:
+      throw new Error(`Unsupported AUDIT_SINK: ${process.env.AUDIT_SINK}`)
+  }
+
+  return sink
+}
+
+/**
+ * Records an audit entry without blocking the response
+ * Failures are logged, never thrown.
+ */
+export function recordAudit(entry: AuditEntry): void {
+  let auditSink: AuditSink | null
+  try {
+    auditSink = getAuditSink()
+  } catch (error) {
+    consola.error('Audit sink configuration error:', error)
+    return
+  }
+
+  if (!auditSink) {
+    return
+  }
+
+  auditSink.write(entry).catch((error) => {
+    consola.error('Failed to write audit entry:', error)
+  })
+}
@@ -1,38 +1,429 @@
-import { createError } from 'h3'
+import { createError, type H3Event } from 'h3'
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import consola from 'consola'
+import { rateLimitOverridesSchema } from './rateLimit'
+import { isValidCidr, createCidrMatcher, matchesCidr } from './ipRules'
+import { getApiKeyStore } from './apiKeyStore'
+import type { Principal } from '../types/auth'
 
 /**
  * Authentication utilities
  */
 
 /**
- * Validates an API key against the configured key
+ * Stored key hash format: `hmac-sha256$<salt-hex>$<digest-hex>`
+ */
+const HASH_PATTERN = /^hmac-sha256\$[0-9a-f]+\$[0-9a-f]{64}$/
+
+/**
+ * A single secret belonging to an API key
+ * A key may hold several secrets during rotation; each stops working at expiresAt.
+ */
+const apiKeySecretSchema = z.object({
+  hash: z.string().regex(HASH_PATTERN, 'Expected hmac-sha256$<salt>$<digest>'),
+  expiresAt: z.iso.datetime({ offset: true }).optional()
+})
+
+/**
+ * Optional client allowlist restricting which ClientNumbers/cltIds a key can read
+ */
+const clientScopeSchema = z.object({
+  clientNumbers: z.array(z.number()).default([]),
+  cltIds: z.array(z.number().int()).default([])
+})
+
+/**
+ * API key registry entry schema
+ * Scopes follow a `resource:action` convention (e.g. `logger:read`).
+ * A scope of `*` grants everything, `logger:*` grants every action on a resource.
+ * Keys without `clients` can read every client. `rateLimits` overrides the
+ * route group limits for this key, keyed by group name. `allowedIps` limits
+ * where the key may be used from (IPv4/IPv6 addresses or CIDR ranges).
+ * `signingSecretEnv` names the environment variable holding the key's HMAC
+ * request-signing secret; keys without it cannot sign requests.
+ * Keys managed through /api/admin/keys also carry lifecycle timestamps: a key
+ * stops working at `expiresAt` or once `revokedAt` is set.
+ */
+export const apiKeySchema = z.object({
+  name: z.string().min(1),
+  owner: z.string().min(1),
+  secrets: z.array(apiKeySecretSchema).min(1),
+  scopes: z.array(z.string().min(1)).default([]),
+  clients: clientScopeSchema.optional(),
+  rateLimits: rateLimitOverridesSchema.optional(),
+  allowedIps: z.array(z.string().refine(isValidCidr, 'Invalid CIDR range')).optional(),
+  signingSecretEnv: z.string().min(1).optional(),
+  createdAt: z.iso.datetime({ offset: true }).optional(),
+  lastUsedAt: z.iso.datetime({ offset: true }).optional(),
+  expiresAt: z.iso.datetime({ offset: true }).optional(),
+  revokedAt: z.iso.datetime({ offset: true }).optional()
+})
+
+const apiKeyRegistrySchema = z.array(apiKeySchema)
+
+export type ApiKey = z.infer<typeof apiKeySchema>
+export type ApiKeySecret = z.infer<typeof apiKeySecretSchema>
+
+let registry: ApiKey[] | null = null
+let registryLoadedAt = 0
+let registryLoading: Promise<ApiKey[]> | null = null
+const ipMatchers = new WeakMap<ApiKey, ReturnType<typeof createCidrMatcher>>()
+
+// The raw API_KEY warning is logged once, not on every reload
+let rawKeyWarned = false
+
+// Names of keys defined in the environment, which the admin API cannot change
+const readOnlyKeys = new Set<string>()
+
+// Last-used timestamps seen by this instance, and the ones not yet persisted
+const lastUsed = new Map<string, string>()
+const unflushedUsage = new Set<string>()
+let usageFlushTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Validates registry records, listing every problem
+ */
+function parseApiKeys(records: unknown, source: string): ApiKey[] {
+  const validation = apiKeyRegistrySchema.safeParse(records)
+  if (!validation.success) {
+    const problems = validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    throw new Error(`Invalid API key registry in ${source}: ${problems.join('; ')}`)
+  }
+  return validation.data
+}
+
+/**
+ * Load the API key registry
+ * Managed keys come from the key store: the JSON file named by API_KEYS_FILE,
+ * or a database table when API_KEYS_STORE=database. Without API_KEYS_FILE,
+ * the API_KEYS environment variable may hold a JSON array of keys. The legacy
+ * single API_KEY is still accepted and registered as 'default' with full
+ * access. Keys from the environment are read-only.
+ */
+export async function loadApiKeys(): Promise<ApiKey[]> {
+  const keys: ApiKey[] = []
+  const environmentKeys: ApiKey[] = []
+
+  const store = getApiKeyStore()
+  if (store) {
+    keys.push(...parseApiKeys(await store.load(), 'key store'))
+  }
+
+  if (process.env.API_KEYS && !process.env.API_KEYS_FILE) {
+    environmentKeys.push(...parseApiKeys(JSON.parse(process.env.API_KEYS), 'API_KEYS'))
+  }
+
+  if (process.env.API_KEY) {
+    if (!rawKeyWarned) {
+      consola.warn('API_KEY holds a raw key in the environment; move it to API_KEYS_FILE as a hash')
+      rawKeyWarned = true
+    }
+    environmentKeys.push({
+      name: 'default',
+      owner: 'legacy',
+      secrets: [{ hash: hashApiKey(process.env.API_KEY) }],
+      scopes: ['*']
+    })
+  }
+
+  keys.push(...environmentKeys)
+
+  const names = new Set<string>()
+  for (const key of keys) {
+    if (names.has(key.name)) {
+      throw new Error(`Duplicate API key name in registry: ${key.name}`)
+    }
+    names.add(key.name)
+  }
+
+  readOnlyKeys.clear()
+  for (const key of environmentKeys) {
+    readOnlyKeys.add(key.name)
+  }
+
+  return keys
+}
+
+/**
+ * How often the registry is re-read so keys changed by another instance take
+ * effect (API_KEYS_RELOAD_SECONDS, default 30)
+ */
+function getReloadIntervalMs(): number {
+  return parseInt(process.env.API_KEYS_RELOAD_SECONDS || '30') * 1000
+}
+
+/**
+ * Get the cached API key registry
+ * Loads it on first use and reloads it once the reload interval has passed.
+ * If a reload fails the previous registry stays in use.
+ */
+export async function getApiKeyRegistry(): Promise<ApiKey[]> {
+  if (registry && Date.now() - registryLoadedAt < getReloadIntervalMs()) {
+    return registry
+  }
+
+  try {
+    return await reloadApiKeys()
+  } catch (error) {
+    if (!registry) {
+      throw error
+    }
+    consola.error('API key registry reload failed, keeping previous keys:', error)
+    registryLoadedAt = Date.now()
+    return registry
+  }
+}
+
+/**
+ * Reloads the API key registry now
+ * Concurrent callers share a single load. The admin API passes `fresh` around
+ * its reads and writes: a load already in flight may have read the store
+ * before the write, so a fresh load starts after it and is applied last.
+ */
+export function reloadApiKeys(options: { fresh?: boolean } = {}): Promise<ApiKey[]> {
+  if (registryLoading && !options.fresh) {
+    return registryLoading
+  }
+
+  const previous = registryLoading?.catch(() => undefined) ?? Promise.resolve()
+  const loading: Promise<ApiKey[]> = previous
+    .then(() => loadApiKeys())
+    .then((keys) => {
+      if (!registry) {
+        consola.info(`API key registry: loaded ${keys.length} key(s)`)
+      }
+      registry = keys
+      registryLoadedAt = Date.now()
+      return keys
+    })
+    .finally(() => {
+      if (registryLoading === loading) {
+        registryLoading = null
+      }
+    })
+
+  registryLoading = loading
+  return loading
+}
+
+/**
+ * Checks whether a key was defined in the environment rather than the key store
+ */
+export function isReadOnlyApiKey(apiKey: ApiKey): boolean {
+  return readOnlyKeys.has(apiKey.name)
+}
+
+/**
+ * Checks whether a key is neither revoked nor past its expiry
+ */
+export function isApiKeyActive(apiKey: ApiKey, now: Date = new Date()): boolean {
+  return !apiKey.revokedAt && (!apiKey.expiresAt || new Date(apiKey.expiresAt) > now)
+}
+
+/**
+ * Get when a key was last used, including uses not yet written to the store
+ */
+export function getApiKeyLastUsed(apiKey: ApiKey): string | undefined {
+  return lastUsed.get(apiKey.name) || apiKey.lastUsedAt
+}
+
+/**
+ * Notes that a key was used
+ * Timestamps are batched and written to the key store every
+ * API_KEYS_USAGE_FLUSH_SECONDS (default 60) rather than on every request.
+ */
+export function recordApiKeyUsage(apiKey: ApiKey): void {
+  lastUsed.set(apiKey.name, new Date().toISOString())
+
+  if (readOnlyKeys.has(apiKey.name)) {
+    return
+  }
+  unflushedUsage.add(apiKey.name)
+
+  if (!usageFlushTimer) {
+    const intervalMs = parseInt(process.env.API_KEYS_USAGE_FLUSH_SECONDS || '60') * 1000
+    usageFlushTimer = setInterval(() => {
+      flushApiKeyUsage().catch(error => consola.error('Failed to record API key usage:', error))
+    }, intervalMs)
+    usageFlushTimer.unref()
+  }
+}
+
+/**
+ * Writes pending last-used timestamps to the key store
+ */
+export async function flushApiKeyUsage(): Promise<void> {
+  const store = getApiKeyStore()
+  if (!store || unflushedUsage.size === 0) {
+    return
+  }
+
+  const usage = new Map<string, string>()
+  for (const name of unflushedUsage) {
+    usage.set(name, lastUsed.get(name)!)
+  }
+  unflushedUsage.clear()
+
+  await store.recordUsage(usage)
+}
+
+/**
+ * Hashes an API key for storage in the registry
+ * @param apiKey The raw API key
+ * @param salt Optional hex salt (a random 16-byte salt is generated by default)
+ * @returns Hash string in `hmac-sha256$<salt>$<digest>` format
+ */
+export function hashApiKey(apiKey: string, salt: string = randomBytes(16).toString('hex')): string {
+  const digest = createHmac('sha256', Buffer.from(salt, 'hex')).update(apiKey).digest('hex')
+  return `hmac-sha256$${salt}$${digest}`
+}
+
+/**
+ * Compares a raw API key against a stored hash in constant time
+ * @param apiKey The raw API key presented by the caller
+ * @param storedHash Hash string from the registry
+ */
+export function verifyApiKeyHash(apiKey: string, storedHash: string): boolean {
+  const [, salt, expected] = storedHash.split('$')
+  const actual = hashApiKey(apiKey, salt).split('$')[2]
+
+  return timingSafeEqual(Buffer.from(actual, 'hex'), Buffer.from(expected, 'hex'))
+}
+
+/**
+ * Short, non-reversible identifier for an API key, safe to write to logs
+ * @param apiKey The raw API key
+ * @returns First 8 hex characters of the key's SHA-256
+ */
+export function fingerprintApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 8)
+}
+
+/**
+ * Checks whether a key secret is still inside its validity window
+ */
+function isSecretActive(secret: ApiKeySecret, now: Date = new Date()): boolean {
+  return !secret.expiresAt || new Date(secret.expiresAt) > now
+}
+
+/**
+ * Validates an API key against the key registry
+ * Every secret is checked so the comparison time does not depend on which key
+ * (if any) matched.
  * @param apiKey The API key to validate
- * @returns boolean indicating if the key is valid
+ * @returns The matching registry entry, or null if the key is unknown, expired or revoked
  */
-export function validateApiKey(apiKey: string | undefined): boolean {
-  const expectedApiKey = process.env.API_KEY
-  
-  if (!expectedApiKey) {
-    throw new Error('API_KEY environment variable is not configured')
+export async function validateApiKey(apiKey: string | undefined): Promise<ApiKey | null> {
+  const keys = await getApiKeyRegistry()
+
+  if (keys.length === 0) {
+    throw new Error('No API keys configured. Set API_KEYS_FILE, API_KEYS or API_KEY')
   }
-  
-  return apiKey === expectedApiKey
+
+  if (!apiKey) {
+    return null
+  }
+
+  const now = new Date()
+  let matched: ApiKey | null = null
+
+  for (const key of keys) {
+    for (const secret of key.secrets) {
+      if (verifyApiKeyHash(apiKey, secret.hash) && isSecretActive(secret, now) && isApiKeyActive(key, now) && !matched) {
+        matched = key
+      }
+    }
+  }
+
+  if (matched) {
+    recordApiKeyUsage(matched)
+  }
+
+  return matched
+}
+
+/**
+ * Checks whether an API key may be used from an address
+ * Keys without `allowedIps` may be used from anywhere.
+ * @param apiKey The matched registry entry
+ * @param address The resolved client address
+ */
+export function isAddressAllowed(apiKey: ApiKey, address: string | undefined): boolean {
+  if (!apiKey.allowedIps) {
+    return true
+  }
+  if (!address) {
+    return false
+  }
+
+  let matcher = ipMatchers.get(apiKey)
+  if (!matcher) {
+    matcher = createCidrMatcher(apiKey.allowedIps)
+    ipMatchers.set(apiKey, matcher)
+  }
+
+  return matchesCidr(matcher, address)
 }
 
 /**
- * Generates a random API key for development/testing
+ * Checks whether a set of granted scopes satisfies a required scope
+ * @param granted Scopes held by the caller
+ * @param required Scope needed by the route
+ */
+export function hasScope(granted: string[], required: string): boolean {
+  const [resource] = required.split(':')
+
+  return granted.some(scope =>
+    scope === '*' ||
+    scope === required ||
+    scope === `${resource}:*`
+  )
+}
+
+/**
+ * Builds the normalized principal for an API key
+ */
+export function principalFromApiKey(apiKey: ApiKey): Principal {
+  return {
+    type: 'apiKey',
+    name: apiKey.name,
+    owner: apiKey.owner,
+    scopes: apiKey.scopes,
+    clients: apiKey.clients,
+    rateLimits: apiKey.rateLimits
+  }
+}
+
+/**
+ * Ensures the authenticated caller holds every scope a route needs
+ * Call at the top of a route handler. Throws 403 naming the first missing scope.
+ * @param event The H3 event
+ * @param scopes Scopes required by the route
+ */
+export function requireScopes(event: H3Event, ...scopes: string[]): void {
+  const principal = event.context.principal
+
+  if (!principal) {
+    throw createAuthError()
+  }
+
+  const missing = scopes.find(scope => !hasScope(principal.scopes, scope))
+  if (missing) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: `Missing required scope: ${missing}`
+    })
+  }
+}
+
+/**
+ * Generates a random API key
  * @param length Length of the generated key (default: 32)
- * @returns A random hex string
+ * @returns A random hex string from a cryptographically secure source
  */
 export function generateApiKey(length: number = 32): string {
-  const characters = '0123456789abcdef'
-  let result = ''
-  
-  for (let i = 0; i < length; i++) {
-    result += characters.charAt(Math.floor(Math.random() * characters.length))
-  }
-  
-  return result
+  return randomBytes(Math.ceil(length / 2)).toString('hex').slice(0, length)
 }
 
 /**
@@ -52,12 +443,12 @@ export function createAuthError(message: string = 'Authentication required') {
  * Useful for testing or development scenarios
  * @returns boolean indicating if auth is required
  */
-export function isAuthRequired(): boolean {
+export async function isAuthRequired(): Promise<boolean> {
   // Skip auth in test environment
   if (process.env.NODE_ENV === 'test') {
     return false
   }
-  
-  // Require auth if API_KEY is configured
-  return !!process.env.API_KEY
-}
\ No newline at end of file
+
+  // Require auth if any API keys are configured
+  return (await getApiKeyRegistry()).length > 0
+}
@@ -0,0 +1,103 @@
+/**
+ * Call Log Filters
+ * Query-string filters for dbo.Calls, shared by the call list and export
+ * endpoints. Client-scoped keys are restricted to their own ClientNumbers.
+ */
+
+import { createError, type H3Event } from 'h3'
+import type { DatabaseType } from './databases'
+import { selectFrom, type SelectQuery } from './databases/queryBuilder'
+import { getClientScope, resolveClientNumbers, applyClientScope } from './clientScope'
+import { applyFilters, type FieldFilters } from './listQuery'
+
+/**
+ * Columns returned for a call, in dbo.Calls order
+ */
+export const CALL_COLUMNS = [
+  'RecID',
+  'CallNumber',
+  'CallID',
+  'CallTime',
+  'CallDuration',
+  'StationNumber',
+  'Agent_old',
+  'AgentInitials',
+  'CallerID',
+  'ClientName',
+  'CallerName',
+  'BillingNumber',
+  'ClientNumber',
+  'CallProgress',
+  'Archived',
+  'Drive',
+  'CombinedDuration',
+  'Emailed',
+  'EndingClientNumber',
+  'QAScore',
+  'Location',
+  'EndingClientName',
+  'EndingBillingNumber',
+  'FinalClientNumber',
+  'FinalClientName',
+  'FinalBillingNumber',
+  'EndTime',
+  'Agent'
+]
+
+// dbo.Calls.ClientNumber is text, unlike dbo.cltClients.ClientNumber
+const CALL_CLIENT_NUMBER_TYPE = 'varchar(20)'
+
+/**
+ * Query-string filters accepted for calls
+ * Types match dbo.Calls so SQL Server can seek on its indexes.
+ */
+export const CALL_FILTERS: FieldFilters = {
+  callNumber: { column: 'CallNumber', match: 'exact', type: 'varchar(50)' },
+  clientName: { column: 'ClientName', match: 'contains', type: 'varchar(255)' },
+  callerName: { column: 'CallerName', match: 'contains', type: 'varchar(255)' },
+  agentInitials: { column: 'AgentInitials', match: 'exact', type: 'varchar(10)' },
+  stationNumber: { column: 'StationNumber', match: 'exact', type: 'varchar(20)' },
+  clientNumber: { column: 'ClientNumber', match: 'exact', type: CALL_CLIENT_NUMBER_TYPE },
+  startDate: { column: 'CallTime', match: 'from', parse: 'date' },
+  endDate: { column: 'CallTime', match: 'to', parse: 'date' }
+}
+
+/**
+ * Fields calls can be sorted on, keyed by API field name
+ */
+export const CALL_SORT_FIELDS: Record<string, string> = {
+  recId: 'RecID',
+  callTime: 'CallTime',
+  callNumber: 'CallNumber',
+  clientNumber: 'ClientNumber',
+  clientName: 'ClientName',
+  agentInitials: 'AgentInitials'
+}
+
+/**
+ * Validates the filter parameters and starts a query on dbo.Calls
+ * @param type The type of the database the query will run on
+ * @throws 400 for invalid dates or a start date after the end date
+ */
+export async function buildCallQuery(event: H3Event, type: DatabaseType, params: Record<string, any>): Promise<SelectQuery> {
+  const query = selectFrom(type, 'dbo.Calls', CALL_COLUMNS)
+  applyFilters(query, params, CALL_FILTERS)
+
+  // Validate date range logic
+  if (params.startDate && params.endDate) {
+    const startDate = new Date(params.startDate as string)
+    const endDate = new Date(params.endDate as string)
+    if (startDate > endDate) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `startDate (${params.startDate}) cannot be after endDate (${params.endDate})`
+      })
+    }
+  }
+
+  // Restrict client-scoped keys to their own ClientNumbers
+  const clientScope = await resolveClientNumbers(getClientScope(event))
+  applyClientScope(query, clientScope, { clientNumber: 'ClientNumber' }, { clientNumberType: CALL_CLIENT_NUMBER_TYPE })
+
+  return query
+}
@@ -0,0 +1,69 @@
+/**
+ * Client List Filters
+ * Query-string filters for dbo.cltClients, shared by the client list and
+ * detail endpoints. Client-scoped keys are restricted to their own clients.
+ */
+
+import type { H3Event } from 'h3'
+import type { DatabaseType, QueryCacheOptions } from './databases'
+import { selectFrom, type SelectQuery } from './databases/queryBuilder'
+import { getClientScope, applyClientScope } from './clientScope'
+import { applyFilters, type FieldFilters } from './listQuery'
+
+/**
+ * Columns returned for a client
+ */
+export const CLIENT_COLUMNS = [
+  'cltId',
+  'Stamp',
+  'ClientNumber',
+  'ClientName',
+  'BillingCode'
+]
+
+/**
+ * Query-string filters accepted for clients
+ * Types match dbo.cltClients so SQL Server can seek on its indexes.
+ */
+export const CLIENT_FILTERS: FieldFilters = {
+  clientNumber: { column: 'ClientNumber', match: 'exact', parse: 'number', type: 'decimal(10,0)' },
+  clientName: { column: 'ClientName', match: 'contains', type: 'varchar(255)' },
+  billingCode: { column: 'BillingCode', match: 'contains' }
+}
+
+/**
+ * Fields clients can be sorted on, keyed by API field name
+ */
+export const CLIENT_SORT_FIELDS: Record<string, string> = {
+  cltId: 'cltId',
+  clientNumber: 'ClientNumber',
+  clientName: 'ClientName',
+  billingCode: 'BillingCode'
+}
+
+/**
+ * Cache options for reads returning client rows
+ * Results are tagged `clients` plus `client:<cltId>` for each row, so
+ * invalidateQueryCache('client:123') drops every cached read of client 123.
+ */
+export function clientCacheOptions(ttlMs: number): QueryCacheOptions {
+  return {
+    ttlMs,
+    tags: result => ['clients', ...result.rows.map(row => `client:${row.cltId}`)]
+  }
+}
+
+/**
+ * Validates the filter parameters and starts a query on dbo.cltClients
+ * @param type The type of the database the query will run on
+ * @throws 400 for invalid filter values
+ */
+export function buildClientQuery(event: H3Event, type: DatabaseType, params: Record<string, any>): SelectQuery {
+  const query = selectFrom(type, 'dbo.cltClients', CLIENT_COLUMNS)
+  applyFilters(query, params, CLIENT_FILTERS)
+
+  // Restrict client-scoped keys to their own clients
+  applyClientScope(query, getClientScope(event), { clientNumber: 'ClientNumber', cltId: 'cltId' })
+
+  return query
+}
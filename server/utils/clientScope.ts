@@ -0,0 +1,104 @@
+/**
+ * Client Scope Utility
+ * Restricts client-scoped API keys to their allowed ClientNumbers and cltIds.
+ * Restrictions are applied as SQL conditions so out-of-scope rows are never
+ * returned - single-record routes then respond 404 as if the record did not exist.
+ */
+
+import type { H3Event } from 'h3'
+import { DatabaseManager } from './databases'
+import { selectFrom, type Condition, type SelectQuery } from './databases/queryBuilder'
+
+const db = DatabaseManager.getInstance()
+
+// dbo.cltClients.ClientNumber
+const DEFAULT_CLIENT_NUMBER_TYPE = 'decimal(10,0)'
+
+/**
+ * Client allowlist carried by a restricted API key
+ */
+export interface ClientScope {
+  clientNumbers: number[]
+  cltIds: number[]
+}
+
+/**
+ * Column names a table exposes for client scoping
+ */
+export interface ClientScopeColumns {
+  clientNumber?: string
+  cltId?: string
+}
+
+/**
+ * Get the client allowlist for the current request
+ * @returns The allowlist, or null when the caller may see every client
+ */
+export function getClientScope(event: H3Event): ClientScope | null {
+  return event.context.principal?.clients || null
+}
+
+/**
+ * Restricts a builder query to the allowed clients
+ * @param scope Client allowlist (null for unrestricted callers)
+ * @param columns Columns to match against
+ * @param options.clientNumberType SQL type of the ClientNumber column (default decimal(10,0))
+ */
+export function applyClientScope(
+  query: SelectQuery,
+  scope: ClientScope | null,
+  columns: ClientScopeColumns,
+  options: { clientNumberType?: string } = {}
+): void {
+  if (!scope) {
+    return
+  }
+
+  const alternatives: Condition[] = []
+
+  if (columns.clientNumber && scope.clientNumbers.length > 0) {
+    const clientNumbers = scope.clientNumbers.map(clientNumber => clientNumberParam(clientNumber, options.clientNumberType))
+    alternatives.push([columns.clientNumber, 'in', clientNumbers])
+  }
+
+  if (columns.cltId && scope.cltIds.length > 0) {
+    alternatives.push([columns.cltId, 'in', scope.cltIds])
+  }
+
+  // A scoped key with nothing that applies to this table sees nothing
+  query.whereAny(alternatives)
+}
+
+/**
+ * A ClientNumber bound with its column's type
+ * Text columns are compared with the number's digits.
+ */
+function clientNumberParam(clientNumber: number, type = DEFAULT_CLIENT_NUMBER_TYPE): { value: number | string, type: string } {
+  return { value: /char/i.test(type) ? String(clientNumber) : clientNumber, type }
+}
+
+/**
+ * Expands a scope's cltIds into ClientNumbers
+ * Needed for tables such as dbo.Calls that only carry a ClientNumber.
+ * @returns The scope with clientNumbers covering both allowlists (null stays null)
+ */
+export async function resolveClientNumbers(scope: ClientScope | null): Promise<ClientScope | null> {
+  if (!scope || scope.cltIds.length === 0) {
+    return scope
+  }
+
+  const intelligentDb = await db.get('default')
+  const { sql, params } = selectFrom(intelligentDb.type, 'dbo.cltClients', ['cltId', 'ClientNumber'])
+    .select(['ClientNumber'])
+    .where('cltId', 'in', scope.cltIds)
+    .build()
+  const result = await intelligentDb.query<{ ClientNumber: number }>(sql, params)
+
+  const clientNumbers = new Set(scope.clientNumbers)
+  result.rows.forEach(row => clientNumbers.add(Number(row.ClientNumber)))
+
+  return {
+    clientNumbers: Array.from(clientNumbers),
+    cltIds: scope.cltIds
+  }
+}
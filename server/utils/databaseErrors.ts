@@ -0,0 +1,63 @@
+/**
+ * Database Error Responses
+ * Turns database failures into HTTP errors with a status and a stable error
+ * code for each kind of failure, so clients can tell an outage from a timeout
+ * or a conflict without parsing messages. Driver messages stay in the logs.
+ */
+
+import { createError, isError, setResponseHeader, type H3Error, type H3Event } from 'h3'
+import { DatabaseError, CircuitOpenError, classifyDatabaseError, type DatabaseErrorKind } from './databases'
+
+/**
+ * HTTP status, error code and client-facing description for a kind of failure
+ */
+export interface DatabaseErrorResponse {
+  statusCode: number
+  code: string
+  description: string
+}
+
+export const DATABASE_ERROR_RESPONSES: Record<DatabaseErrorKind, DatabaseErrorResponse> = {
+  timeout: { statusCode: 504, code: 'DB_TIMEOUT', description: 'the database did not respond in time' },
+  connection: { statusCode: 503, code: 'DB_UNAVAILABLE', description: 'the database is unavailable' },
+  auth: { statusCode: 503, code: 'DB_AUTH_FAILED', description: 'the database rejected the service credentials' },
+  constraint: { statusCode: 409, code: 'DB_CONSTRAINT_VIOLATION', description: 'the change conflicts with existing data' },
+  deadlock: { statusCode: 409, code: 'DB_DEADLOCK', description: 'the request conflicted with a concurrent transaction, retry it' },
+  syntax: { statusCode: 500, code: 'DB_QUERY_INVALID', description: 'the database rejected the query' },
+  permission: { statusCode: 500, code: 'DB_PERMISSION_DENIED', description: 'the service account lacks a database permission' },
+  'not-found-object': { statusCode: 500, code: 'DB_OBJECT_NOT_FOUND', description: 'a table, column or procedure is missing' },
+  cancelled: { statusCode: 499, code: 'DB_CANCELLED', description: 'the request was cancelled' },
+  unknown: { statusCode: 500, code: 'DB_ERROR', description: 'database operation failed' }
+}
+
+/**
+ * Builds the HTTP error for a failed database operation
+ * HTTP errors thrown inside the operation (e.g. a 404) are passed through.
+ * Sets Retry-After when retrying later can help: while a circuit is open, and
+ * after a deadlock.
+ * @param message What the route was doing, e.g. 'Failed to fetch client list'
+ */
+export function createDatabaseHttpError(event: H3Event, error: unknown, message: string): H3Error {
+  if (isError(error)) {
+    return error
+  }
+
+  const kind = error instanceof DatabaseError ? error.kind : classifyDatabaseError(error)
+  const response = DATABASE_ERROR_RESPONSES[kind]
+
+  if (error instanceof CircuitOpenError) {
+    setResponseHeader(event, 'Retry-After', Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)))
+  } else if (kind === 'deadlock') {
+    setResponseHeader(event, 'Retry-After', 1)
+  }
+
+  return createError({
+    statusCode: response.statusCode,
+    statusMessage: `${message}: ${response.description}`,
+    data: {
+      code: response.code,
+      kind,
+      database: error instanceof DatabaseError ? error.database : undefined
+    }
+  })
+}
@@ -0,0 +1,284 @@
+/**
+ * Query result cache
+ * Reads of data that rarely changes can be cached per call site by passing
+ * `cache: { ttlMs, tags }` in the query options. Entries are keyed by
+ * database, SQL and parameters, expire after their TTL, and can be dropped
+ * early by tag (e.g. everything tagged `client:123`). The default backend is
+ * an in-memory LRU and therefore per instance; implement QueryCacheBackend to
+ * share the cache between instances.
+ */
+
+import { createHash } from 'crypto'
+import consola from 'consola'
+import {
+  IDatabase,
+  DatabaseType,
+  QueryResult,
+  Transaction,
+  ConnectionStats,
+  QueryOptions,
+  QueryCacheOptions,
+  TransactionOptions
+} from './interfaces'
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * Storage backend for cached query results
+ */
+export interface QueryCacheBackend {
+  get(key: string): Promise<QueryResult | undefined>
+  set(key: string, result: QueryResult, ttlMs: number, tags: string[]): Promise<void>
+  // Returns the number of entries removed
+  invalidateTags(tags: string[]): Promise<number>
+  clear(): Promise<void>
+  // Number of entries held, where the backend can tell cheaply
+  size?(): number
+}
+
+interface CacheEntry {
+  result: QueryResult
+  expiresAt: number
+  tags: string[]
+}
+
+/**
+ * In-memory LRU cache for a single instance
+ * Results are copied in and out, so callers can modify what they get back.
+ */
+export class MemoryQueryCache implements QueryCacheBackend {
+  private entries: Map<string, CacheEntry> = new Map()
+  private tagIndex: Map<string, Set<string>> = new Map()
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<QueryResult | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      return undefined
+    }
+
+    // Map order is insertion order; re-inserting marks the entry most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return structuredClone(entry.result)
+  }
+
+  async set(key: string, result: QueryResult, ttlMs: number, tags: string[]): Promise<void> {
+    this.delete(key)
+    this.entries.set(key, { result: structuredClone(result), expiresAt: Date.now() + ttlMs, tags })
+
+    for (const tag of tags) {
+      let keys = this.tagIndex.get(tag)
+      if (!keys) {
+        keys = new Set()
+        this.tagIndex.set(tag, keys)
+      }
+      keys.add(key)
+    }
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      this.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set(tags.flatMap(tag => Array.from(this.tagIndex.get(tag) ?? [])))
+    keys.forEach(key => this.delete(key))
+    return keys.size
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+    this.tagIndex.clear()
+  }
+
+  size(): number {
+    return this.entries.size
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return
+    }
+
+    this.entries.delete(key)
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag)
+      }
+    }
+  }
+}
+
+let backend: QueryCacheBackend = new MemoryQueryCache(Number(process.env.QUERY_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES)
+const counters: Map<string, { hits: number, misses: number }> = new Map()
+
+/**
+ * Replace the cache backend (e.g. with a shared one)
+ */
+export function setQueryCacheBackend(newBackend: QueryCacheBackend): void {
+  backend = newBackend
+}
+
+/**
+ * Get the active cache backend
+ */
+export function getQueryCacheBackend(): QueryCacheBackend {
+  return backend
+}
+
+/**
+ * Checks if query caching is enabled (QUERY_CACHE_ENABLED, default true)
+ */
+export function isQueryCacheEnabled(): boolean {
+  return process.env.QUERY_CACHE_ENABLED !== 'false'
+}
+
+/**
+ * Drop every cached result carrying any of the tags
+ * @returns The number of entries removed
+ */
+export async function invalidateQueryCache(...tags: string[]): Promise<number> {
+  const removed = await backend.invalidateTags(tags)
+  consola.debug(`Query cache: invalidated ${removed} entr${removed === 1 ? 'y' : 'ies'} tagged ${tags.join(', ')}`)
+  return removed
+}
+
+/**
+ * Drop every cached result
+ */
+export async function clearQueryCache(): Promise<void> {
+  await backend.clear()
+}
+
+/**
+ * Hit and miss counters as shown by the health endpoints
+ */
+export interface QueryCacheStats {
+  enabled: boolean
+  entries: number | null
+  hits: number
+  misses: number
+  hitRate: number | null
+  databases: Record<string, { hits: number, misses: number }>
+}
+
+/**
+ * Get cache counters, overall and per database
+ */
+export function getQueryCacheStats(): QueryCacheStats {
+  const databases = Object.fromEntries(Array.from(counters.entries()).map(([name, counter]) => [name, { ...counter }]))
+  const hits = Object.values(databases).reduce((sum, counter) => sum + counter.hits, 0)
+  const misses = Object.values(databases).reduce((sum, counter) => sum + counter.misses, 0)
+
+  return {
+    enabled: isQueryCacheEnabled(),
+    entries: backend.size ? backend.size() : null,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+    databases
+  }
+}
+
+function count(database: string, outcome: 'hits' | 'misses'): void {
+  const counter = counters.get(database) ?? { hits: 0, misses: 0 }
+  counter[outcome]++
+  counters.set(database, counter)
+}
+
+/**
+ * Cache key for a query: database name plus a hash of the SQL and parameters
+ */
+export function queryCacheKey(database: string, sql: string, params?: any): string {
+  const hash = createHash('sha256').update(JSON.stringify([sql, params ?? null])).digest('hex')
+  return `${database}:${hash}`
+}
+
+/**
+ * Connection wrapper serving queries with `cache` options from the cache
+ * A failing backend is logged and bypassed rather than failing the query.
+ */
+export class CachingConnection implements IDatabase {
+  constructor(readonly inner: IDatabase) {}
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  get type(): DatabaseType {
+    return this.inner.type
+  }
+
+  async connect(): Promise<void> {
+    await this.inner.connect()
+  }
+
+  async disconnect(): Promise<void> {
+    await this.inner.disconnect()
+  }
+
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    const cache = options?.cache
+    if (!cache || !isQueryCacheEnabled()) {
+      return this.inner.query<T>(sql, params, options)
+    }
+
+    const key = queryCacheKey(this.name, sql, params)
+
+    try {
+      const cached = await backend.get(key)
+      if (cached) {
+        count(this.name, 'hits')
+        return cached as QueryResult<T>
+      }
+    } catch (error) {
+      consola.warn(`[${this.name}] Query cache read failed:`, error)
+    }
+
+    count(this.name, 'misses')
+    const result = await this.inner.query<T>(sql, params, options)
+
+    try {
+      await backend.set(key, result, cache.ttlMs, cacheTags(cache, result))
+    } catch (error) {
+      consola.warn(`[${this.name}] Query cache write failed:`, error)
+    }
+
+    return result
+  }
+
+  stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncIterable<T> {
+    return this.inner.stream<T>(sql, params, options)
+  }
+
+  async execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    return this.inner.execute!<T>(procedure, params, options)
+  }
+
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
+    return this.inner.beginTransaction!(options)
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.inner.testConnection()
+  }
+
+  getStats(): ConnectionStats {
+    return this.inner.getStats!()
+  }
+}
+
+function cacheTags(cache: QueryCacheOptions, result: QueryResult): string[] {
+  return typeof cache.tags === 'function' ? cache.tags(result) : cache.tags ?? []
+}
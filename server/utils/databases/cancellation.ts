@@ -0,0 +1,188 @@
+/**
+ * Query timeouts and cancellation
+ * A query is given a deadline and an optional AbortSignal. When either fires
+ * the caller gets an error straight away and the driver's native cancel is
+ * sent so the statement stops running on the server. The native cancel can
+ * land after the statement has finished, so drivers whose cancel goes over
+ * another connection destroy a cancelled connection instead of returning it
+ * to the pool.
+ */
+
+import consola from 'consola'
+import type { QueryOptions } from './interfaces'
+
+/**
+ * Raised when a query runs past its timeout
+ * Named TimeoutError so the stats counters and error classification treat it
+ * like a driver timeout.
+ */
+export class QueryTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Query cancelled after ${timeoutMs}ms timeout`)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Raised when the caller aborts a query, e.g. because the HTTP client went away
+ */
+export class QueryAbortedError extends Error {
+  constructor() {
+    super('Query cancelled by caller')
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * Registers the native cancel for the statement about to be sent
+ * Throws if the query was already cancelled while waiting for a connection,
+ * so the statement is never sent.
+ */
+export type CancelRegistration = (cancel: () => unknown) => void
+
+/**
+ * Runs a query with a timeout and abort signal
+ * @param options Per-call options; `timeoutMs` of 0 disables the timeout
+ * @param defaultTimeoutMs The database's configured timeout
+ * @param run Starts the query; calls `onCancel` with the native cancel once the
+ *   statement is about to be sent
+ */
+export function runCancellable<T>(
+  database: string,
+  options: QueryOptions | undefined,
+  defaultTimeoutMs: number,
+  run: (onCancel: CancelRegistration) => Promise<T>
+): Promise<T> {
+  const timeoutMs = options?.timeoutMs ?? defaultTimeoutMs
+  const signal = options?.signal
+
+  if (signal?.aborted) {
+    return Promise.reject(new QueryAbortedError())
+  }
+  if (!timeoutMs && !signal) {
+    return run(() => {})
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let stopped: Error | null = null
+    let cancel: (() => unknown) | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    const stop = (error: Error) => {
+      if (stopped) {
+        return
+      }
+      stopped = error
+      cleanup()
+      reject(error)
+
+      if (cancel) {
+        Promise.resolve()
+          .then(cancel)
+          .catch(cancelError => consola.warn(`[${database}] Could not cancel query:`, cancelError))
+      }
+    }
+
+    const onAbort = () => stop(new QueryAbortedError())
+
+    if (timeoutMs) {
+      timer = setTimeout(() => stop(new QueryTimeoutError(timeoutMs)), timeoutMs)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const onCancel: CancelRegistration = (nativeCancel) => {
+      if (stopped) {
+        throw stopped
+      }
+      cancel = nativeCancel
+    }
+
+    run(onCancel).then(
+      (result) => {
+        cleanup()
+        resolve(result)
+      },
+      (error) => {
+        cleanup()
+        // After a cancel the driver's own error (ECANCEL, 57014, ...) is
+        // superseded by the reason the query was stopped
+        reject(stopped || error)
+      }
+    )
+  })
+}
+
+// Rows a streaming query buffers ahead of its consumer
+export const STREAM_HIGH_WATER_MARK = 500
+
+/**
+ * An open streaming query, as returned by a driver
+ */
+export interface RowSource<T> {
+  rows: AsyncIterable<T>
+  // Stops the statement on the server
+  cancel: () => unknown
+  // Releases the connection; `completed` is false when rows were left unread
+  close: (completed: boolean) => unknown
+}
+
+/**
+ * Yields the rows of a streaming query, honouring the abort signal
+ * Unlike runCancellable there is no default timeout, since a stream may
+ * legitimately run for a long time; only an explicit `timeoutMs` applies.
+ * Stopping early (the consumer breaks out of its loop) closes the source.
+ */
+export async function* streamCancellable<T>(
+  database: string,
+  options: QueryOptions | undefined,
+  open: () => Promise<RowSource<T>>
+): AsyncGenerator<T> {
+  const signal = options?.signal
+  if (signal?.aborted) {
+    throw new QueryAbortedError()
+  }
+
+  const source = await open()
+  let stopped: Error | null = null
+  let completed = false
+
+  const stop = (error: Error) => {
+    if (stopped) {
+      return
+    }
+    stopped = error
+    Promise.resolve()
+      .then(source.cancel)
+      .catch(cancelError => consola.warn(`[${database}] Could not cancel query:`, cancelError))
+  }
+
+  const onAbort = () => stop(new QueryAbortedError())
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  const timeoutMs = options?.timeoutMs
+  const timer = timeoutMs ? setTimeout(() => stop(new QueryTimeoutError(timeoutMs)), timeoutMs) : undefined
+
+  try {
+    for await (const row of source.rows) {
+      if (stopped) {
+        throw stopped
+      }
+      yield row
+    }
+    if (stopped) {
+      throw stopped
+    }
+    completed = true
+  } catch (error) {
+    throw stopped || error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+    await source.close(completed)
+  }
+}
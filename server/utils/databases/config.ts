@@ -0,0 +1,361 @@
+/**
+ * Database configuration file loader
+ * Databases are declared in a JSON or YAML file (DATABASES_CONFIG_FILE, default
+ * config/databases.yaml) instead of code. String values may reference
+ * environment variables as `${VAR}` or `${VAR:-fallback}`; a variable that is
+ * unset falls back to the contents of the file named by `VAR_FILE`.
+ */
+
+import { readFileSync, existsSync } from 'fs'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { DatabaseType, type AnyDatabaseConfig } from './interfaces'
+import { replicaName } from './replicas'
+
+const DEFAULT_CONFIG_FILE = 'config/databases.yaml'
+
+/**
+ * Booleans may arrive as strings after interpolation
+ */
+const booleanish = z.preprocess(
+  value => value === 'true' ? true : value === 'false' ? false : value,
+  z.boolean()
+)
+
+const port = z.coerce.number().int().min(1).max(65535)
+const count = z.coerce.number().int().min(0)
+
+const poolConfigSchema = z.object({
+  min: count.optional(),
+  max: count.optional(),
+  idleTimeoutMillis: count.optional(),
+  connectionTimeoutMillis: count.optional(),
+  acquireTimeoutMillis: count.optional()
+}).strict()
+
+const retryConfigSchema = z.object({
+  attempts: z.coerce.number().int().min(1).optional(),
+  baseDelayMs: count.optional(),
+  maxDelayMs: count.optional()
+}).strict()
+
+const circuitBreakerConfigSchema = z.object({
+  failureThreshold: z.coerce.number().int().min(1).optional(),
+  resetTimeoutMs: count.optional()
+}).strict()
+
+const databaseName = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, dashes or underscores')
+
+/**
+ * Replica settings shared by every type; the address key differs per type
+ */
+const replicaConfigShape = {
+  name: databaseName.optional(),
+  enabled: booleanish.optional(),
+  port: port.optional(),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  poolConfig: poolConfigSchema.optional()
+}
+
+const hostReplicaConfigSchema = z.object({
+  ...replicaConfigShape,
+  host: z.string().min(1)
+}).strict()
+
+const baseConfigShape = {
+  name: databaseName,
+  enabled: booleanish.optional(),
+  poolConfig: poolConfigSchema.optional(),
+  retry: retryConfigSchema.optional(),
+  circuitBreaker: circuitBreakerConfigSchema.optional(),
+  queryTimeoutMs: count.optional(),
+  replicaRoutes: z.array(z.string().startsWith('/', 'Routes start with /')).optional()
+}
+
+const mssqlConfigSchema = z.object({
+  ...baseConfigShape,
+  type: z.literal(DatabaseType.MSSQL),
+  server: z.string().min(1),
+  port,
+  database: z.string().min(1),
+  user: z.string(),
+  password: z.string(),
+  encrypt: booleanish.optional(),
+  trustServerCertificate: booleanish.optional(),
+  options: z.record(z.string(), z.any()).optional(),
+  replicas: z.array(z.object({
+    ...replicaConfigShape,
+    server: z.string().min(1),
+    maxLagSeconds: count.optional()
+  }).strict()).optional()
+}).strict()
+
+const mysqlConfigSchema = z.object({
+  ...baseConfigShape,
+  type: z.literal(DatabaseType.MySQL),
+  host: z.string().min(1),
+  port,
+  database: z.string().min(1),
+  user: z.string(),
+  password: z.string(),
+  waitForConnections: booleanish.optional(),
+  queueLimit: count.optional(),
+  enableKeepAlive: booleanish.optional(),
+  keepAliveInitialDelay: count.optional(),
+  replicas: z.array(hostReplicaConfigSchema).optional()
+}).strict()
+
+const postgresConfigSchema = z.object({
+  ...baseConfigShape,
+  type: z.literal(DatabaseType.PostgreSQL),
+  host: z.string().min(1),
+  port,
+  database: z.string().min(1),
+  user: z.string(),
+  password: z.string(),
+  ssl: booleanish.or(z.record(z.string(), z.any())).optional(),
+  statement_timeout: count.optional(),
+  query_timeout: count.optional(),
+  replicas: z.array(hostReplicaConfigSchema).optional()
+}).strict()
+
+const sqliteConfigSchema = z.object({
+  ...baseConfigShape,
+  type: z.literal(DatabaseType.SQLite),
+  seed: z.array(z.string().min(1)).optional()
+}).strict()
+
+/**
+ * A single database entry, checked against AnyDatabaseConfig
+ */
+export const databaseConfigSchema = z.discriminatedUnion('type', [
+  mssqlConfigSchema,
+  mysqlConfigSchema,
+  postgresConfigSchema,
+  sqliteConfigSchema
+], { error: `Expected type ${Object.values(DatabaseType).join(', ')}` }) satisfies z.ZodType<AnyDatabaseConfig>
+
+/**
+ * The config file: a list of database entries
+ * `optional` is a loader directive and is not part of the database config.
+ */
+const configFileSchema = z.object({
+  databases: z.array(z.object({ optional: booleanish.optional() }).passthrough())
+}).strict()
+
+/**
+ * Thrown when the config file cannot be used; lists every problem found
+ */
+export class DatabaseConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly problems: string[]
+  ) {
+    super(`Invalid database configuration in ${file}:\n  - ${problems.join('\n  - ')}`)
+    this.name = 'DatabaseConfigError'
+  }
+}
+
+/**
+ * Reads an environment variable, falling back to the file named by VAR_FILE
+ * Empty values count as unset, matching the shell's `:-` operator.
+ */
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]
+  if (value) {
+    return value
+  }
+
+  const file = process.env[`${name}_FILE`]
+  if (file) {
+    try {
+      return readFileSync(file, 'utf-8').trim()
+    } catch (error: any) {
+      throw new Error(`${name}_FILE could not be read: ${error.message}`)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Finds the `}` closing a `${` that starts at `start`, allowing nested references
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text.startsWith('${', i)) {
+      depth++
+      i++
+    } else if (text[i] === '}') {
+      depth--
+      if (depth === 0) {
+        return i
+      }
+    }
+  }
+  return -1
+}
+
+/**
+ * Replaces `${VAR}` and `${VAR:-fallback}` references in a string
+ * @param missing Collects the names of referenced variables that are unset and have no fallback
+ */
+function interpolate(text: string, missing: string[]): string {
+  let result = ''
+  let position = 0
+
+  while (position < text.length) {
+    const start = text.indexOf('${', position)
+    if (start === -1) {
+      result += text.slice(position)
+      break
+    }
+
+    const end = findClosingBrace(text, start)
+    if (end === -1) {
+      throw new Error(`Unterminated variable reference in '${text}'`)
+    }
+
+    const reference = text.slice(start + 2, end)
+    const match = reference.match(/^([A-Za-z_][A-Za-z0-9_]*)(?::-([\s\S]*))?$/)
+    if (!match) {
+      throw new Error(`Invalid variable reference '\${${reference}}'`)
+    }
+
+    const [, name, fallback] = match
+    const value = readEnv(name)
+
+    result += text.slice(position, start)
+    if (value !== undefined) {
+      result += value
+    } else if (fallback !== undefined) {
+      result += interpolate(fallback, missing)
+    } else {
+      missing.push(name)
+    }
+
+    position = end + 1
+  }
+
+  return result
+}
+
+/**
+ * Interpolates every string inside a parsed config value
+ * Problems are collected with their path rather than thrown.
+ */
+function interpolateValue(value: unknown, path: string, missing: string[], problems: string[]): unknown {
+  if (typeof value === 'string') {
+    try {
+      return interpolate(value, missing)
+    } catch (error: any) {
+      problems.push(`${path}: ${error.message}`)
+      return value
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateValue(item, `${path}.${index}`, missing, problems))
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateValue(item, `${path}.${key}`, missing, problems)])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Get the path of the database config file
+ */
+export function getDatabaseConfigPath(): string {
+  return process.env.DATABASES_CONFIG_FILE || DEFAULT_CONFIG_FILE
+}
+
+/**
+ * Reads and parses the config file as YAML or JSON, by extension
+ */
+function readConfigFile(file: string): unknown {
+  if (!existsSync(file)) {
+    throw new DatabaseConfigError(file, ['File not found. Set DATABASES_CONFIG_FILE or create config/databases.yaml'])
+  }
+
+  const raw = readFileSync(file, 'utf-8')
+
+  try {
+    return extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw)
+  } catch (error: any) {
+    throw new DatabaseConfigError(file, [`Could not parse file: ${error.message}`])
+  }
+}
+
+/**
+ * Load and validate every database declared in the config file
+ * Optional entries that reference an unset variable are skipped; anything
+ * else that is wrong is collected and reported together.
+ * @param file Config file path (defaults to DATABASES_CONFIG_FILE)
+ * @throws DatabaseConfigError listing every problem
+ */
+export function loadDatabaseConfigs(file: string = getDatabaseConfigPath()): AnyDatabaseConfig[] {
+  const parsed = configFileSchema.safeParse(readConfigFile(file))
+  if (!parsed.success) {
+    throw new DatabaseConfigError(file, parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+  }
+
+  const configs: AnyDatabaseConfig[] = []
+  const problems: string[] = []
+  const names = new Set<string>()
+
+  parsed.data.databases.forEach((entry, index) => {
+    const { optional, ...definition } = entry
+    const label = typeof definition.name === 'string' ? definition.name : `#${index}`
+    const path = `databases.${index}`
+
+    const missing: string[] = []
+    const resolved = interpolateValue(definition, path, missing, problems)
+
+    if (missing.length > 0) {
+      if (!optional) {
+        problems.push(`${path} (${label}): environment variable(s) not set: ${[...new Set(missing)].join(', ')}`)
+      }
+      return
+    }
+
+    const validation = databaseConfigSchema.safeParse(resolved)
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        problems.push(`${[path, ...issue.path].join('.')} (${label}): ${issue.message}`)
+      }
+      return
+    }
+
+    if (names.has(validation.data.name)) {
+      problems.push(`${path}: duplicate database name '${validation.data.name}'`)
+      return
+    }
+
+    // SQLite databases have no replicas
+    const replicas = 'replicas' in validation.data ? validation.data.replicas ?? [] : []
+    const replicaNames = replicas.map((replica, replicaIndex) => replicaName(validation.data, replica, replicaIndex))
+    const duplicate = replicaNames.find((name, replicaIndex) => names.has(name) || name === validation.data.name || replicaNames.indexOf(name) !== replicaIndex)
+    if (duplicate) {
+      problems.push(`${path}: duplicate database name '${duplicate}'`)
+      return
+    }
+
+    names.add(validation.data.name)
+    replicaNames.forEach(name => names.add(name))
+    configs.push(validation.data)
+  })
+
+  if (problems.length > 0) {
+    throw new DatabaseConfigError(file, problems)
+  }
+
+  return configs
+}
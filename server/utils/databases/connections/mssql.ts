@@ -12,8 +12,76 @@ import {
   Transaction,
   ConnectionStats,
   ResultAdapter,
-  DatabaseError
+  DatabaseError,
+  QueryOptions,
+  TransactionOptions
 } from '../interfaces'
+import { QueryStatsCollector } from '../stats'
+import { isolationLevelSql, runInSavepoint } from '../transactions'
+import { runCancellable, streamCancellable, STREAM_HIGH_WATER_MARK } from '../cancellation'
+import { isTypedParameter, parseParameterType, type TypedParameter } from '../parameters'
+import { databaseEvents, trackQuery, trackStream, type TrackedQuery } from '../events'
+
+// mssql's own default request timeout, kept as the default here
+const DEFAULT_QUERY_TIMEOUT_MS = 15000
+
+// mssql data types by lower-cased SQL name (varchar -> sql.VarChar)
+const MSSQL_TYPES: Record<string, any> = Object.fromEntries(
+  Object.entries(sql.TYPES).map(([name, type]) => [name.toLowerCase(), type])
+)
+const LENGTH_TYPES = new Set(['varchar', 'nvarchar', 'char', 'nchar', 'varbinary', 'binary'])
+const PRECISION_TYPES = new Set(['decimal', 'numeric'])
+const SCALE_TYPES = new Set(['time', 'datetime2', 'datetimeoffset'])
+
+/**
+ * Resolves a typed parameter to an mssql data type
+ * @throws Error for types mssql does not have or sizes that don't fit the type
+ */
+function toMSSQLType(param: TypedParameter): any {
+  const { name, sizes } = parseParameterType(param.type)
+  const type = MSSQL_TYPES[name]
+
+  if (!type || name === 'tvp' || name === 'udt') {
+    throw new Error(`Unsupported SQL Server parameter type '${param.type}'`)
+  }
+  if (sizes.includes('max') && !LENGTH_TYPES.has(name)) {
+    throw new Error(`Parameter type '${param.type}' cannot have a max length`)
+  }
+
+  if (LENGTH_TYPES.has(name)) {
+    const length = sizes[0] ?? param.length
+    return length === undefined ? type : type(length === 'max' ? sql.MAX : length)
+  }
+  if (PRECISION_TYPES.has(name)) {
+    const precision = sizes[0] ?? param.precision
+    return precision === undefined ? type : type(precision, sizes[1] ?? param.scale ?? 0)
+  }
+  if (SCALE_TYPES.has(name)) {
+    const scale = sizes[0] ?? param.scale
+    return scale === undefined ? type : type(scale)
+  }
+
+  return type
+}
+
+/**
+ * Adds named parameters to a request
+ * Typed parameters are declared with their SQL type; plain values are left
+ * for mssql to infer, as before.
+ */
+function addInputs(request: sql.Request, params?: Record<string, any>): void {
+  if (!params) {
+    return
+  }
+
+  for (const [key, param] of Object.entries(params)) {
+    if (isTypedParameter(param)) {
+      request.input(key, toMSSQLType(param), param.value)
+    } else {
+      request.input(key, param)
+    }
+  }
+}
 
 /**
  * MSSQL database connection class
@@ -24,9 +92,12 @@ export class MSSQLConnection implements IDatabase {
   private config: SqlConfig
   private pool: ConnectionPool | null = null
   private connected = false
+  private stats = new QueryStatsCollector()
+  private queryTimeoutMs: number
 
   constructor(config: MSSQLConfig) {
     this.name = config.name
+    this.queryTimeoutMs = config.queryTimeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS
 
     // Build MSSQL config from our config interface
     this.config = {
@@ -35,6 +106,8 @@ export class MSSQLConnection implements IDatabase {
       database: config.database,
       user: config.user,
       password: config.password,
+      // Timeouts are enforced per query by runCancellable, which cancels the request
+      requestTimeout: 0,
       pool: {
         max: config.poolConfig?.max || 10,
         min: config.poolConfig?.min || 0,
@@ -61,10 +134,13 @@ export class MSSQLConnection implements IDatabase {
     try {
       this.pool = new sql.ConnectionPool(this.config)
       await this.pool.connect()
+      this.trackAcquires()
       this.connected = true
       consola.success(`[${this.name}] MSSQL connection established`)
+      databaseEvents.emit('connect', { database: this.name, type: this.type })
     } catch (error) {
       consola.error(`[${this.name}] MSSQL connection failed:`, error)
+      databaseEvents.emit('error', { database: this.name, type: this.type, error: error as Error })
       throw new DatabaseError(
         `Failed to connect to database: ${this.name}`,
         this.name,
@@ -87,6 +163,7 @@ export class MSSQLConnection implements IDatabase {
       this.pool = null
       this.connected = false
       consola.info(`[${this.name}] MSSQL connection closed`)
+      databaseEvents.emit('disconnect', { database: this.name, type: this.type })
     } catch (error) {
       consola.error(`[${this.name}] Error closing MSSQL connection:`, error)
       throw new DatabaseError(
@@ -101,24 +178,26 @@ export class MSSQLConnection implements IDatabase {
   /**
    * Execute a query with parameters
    */
-  async query<T = any>(query: string, params?: Record<string, any>): Promise<QueryResult<T>> {
+  async query<T = any>(query: string, params?: Record<string, any>, options?: QueryOptions): Promise<QueryResult<T>> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const tracked = trackQuery(this, 'query', query, params, options)
     try {
       const request = this.pool!.request()
 
-      // Add parameters if provided
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          request.input(key, value)
-        })
-      }
+      addInputs(request, params)
 
-      const result = await request.query<T>(query)
-      return ResultAdapter.fromMSSQL(result)
+      this.stats.recordQuery()
+      const result = await runCancellable(this.name, options, this.queryTimeoutMs, (onCancel) => {
+        onCancel(() => request.cancel())
+        return request.query<T>(query)
+      })
+      return tracked.end(ResultAdapter.fromMSSQL(result))
     } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Query error:`, error)
       throw new DatabaseError(
         `Query failed on database: ${this.name}`,
@@ -129,27 +208,71 @@ export class MSSQLConnection implements IDatabase {
     }
   }
 
+  /**
+   * Stream the rows of a query
+   * The request is paused whenever the consumer falls behind.
+   */
+  async *stream<T = any>(query: string, params?: Record<string, any>, options?: QueryOptions): AsyncGenerator<T> {
+    if (!this.pool || !this.connected) {
+      await this.connect()
+    }
+
+    try {
+      yield* trackStream(trackQuery(this, 'stream', query, params, options), streamCancellable<T>(this.name, options, async () => {
+        const request = this.pool!.request()
+
+        addInputs(request, params)
+
+        const rows = request.toReadableStream({ highWaterMark: STREAM_HIGH_WATER_MARK })
+        this.stats.recordQuery()
+        request.query(query)
+
+        return {
+          rows,
+          cancel: () => request.cancel(),
+          close: (completed: boolean) => {
+            if (!completed) {
+              request.cancel()
+              rows.destroy()
+            }
+          }
+        }
+      }))
+    } catch (error) {
+      this.stats.recordError(error)
+      consola.error(`[${this.name}] Stream error:`, error)
+      throw new DatabaseError(
+        `Query failed on database: ${this.name}`,
+        this.name,
+        this.type,
+        error as Error
+      )
+    }
+  }
+
   /**
    * Execute a stored procedure
    */
-  async execute<T = any>(procedure: string, params?: Record<string, any>): Promise<QueryResult<T>> {
+  async execute<T = any>(procedure: string, params?: Record<string, any>, options?: QueryOptions): Promise<QueryResult<T>> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const tracked = trackQuery(this, 'execute', procedure, params, options)
     try {
       const request = this.pool!.request()
 
-      // Add parameters if provided
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          request.input(key, value)
-        })
-      }
+      addInputs(request, params)
 
-      const result = await request.execute<T>(procedure)
-      return ResultAdapter.fromMSSQL(result)
+      this.stats.recordQuery()
+      const result = await runCancellable(this.name, options, this.queryTimeoutMs, (onCancel) => {
+        onCancel(() => request.cancel())
+        return request.execute<T>(procedure)
+      })
+      return tracked.end(ResultAdapter.fromMSSQL(result))
     } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Stored procedure error:`, error)
       throw new DatabaseError(
         `Stored procedure failed on database: ${this.name}`,
@@ -163,27 +286,56 @@ export class MSSQLConnection implements IDatabase {
   /**
    * Begin a transaction
    */
-  async beginTransaction(): Promise<Transaction> {
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    // sql.ISOLATION_LEVEL is keyed READ_COMMITTED, SNAPSHOT, ...
+    const isolationLevel = options?.isolationLevel
+      ? sql.ISOLATION_LEVEL[isolationLevelSql(this.name, this.type, options.isolationLevel).replace(' ', '_')]
+      : undefined
+
     const transaction = new sql.Transaction(this.pool!)
-    await transaction.begin()
+    await transaction.begin(isolationLevel)
 
-    return {
-      query: async <T = any>(sql: string, params?: any): Promise<QueryResult<T>> => {
+    const run = async <T>(request: any, options: QueryOptions | undefined, tracked: TrackedQuery, send: () => Promise<IResult<T>>): Promise<QueryResult<T>> => {
+      this.stats.recordQuery()
+      try {
+        const result = await runCancellable(this.name, options, this.queryTimeoutMs, (onCancel) => {
+          onCancel(() => request.cancel())
+          return send()
+        })
+        return tracked.end(ResultAdapter.fromMSSQL(result))
+      } catch (error) {
+        tracked.fail(error)
+        this.stats.recordError(error)
+        throw error
+      }
+    }
+
+    let savepoints = 0
+    const tx: Transaction = {
+      query: async <T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
         const request = transaction.request()
 
-        if (params) {
-          Object.entries(params).forEach(([key, value]) => {
-            request.input(key, value)
-          })
-        }
+        addInputs(request, params)
 
-        const result = await request.query<T>(sql)
-        return ResultAdapter.fromMSSQL(result)
+        return run<T>(request, options, trackQuery(this, 'query', sql, params, options), () => request.query<T>(sql))
       },
+      execute: async <T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const request = transaction.request()
+
+        addInputs(request, params)
+
+        return run<T>(request, options, trackQuery(this, 'execute', procedure, params, options), () => request.execute<T>(procedure))
+      },
+      savepoint: fn => runInSavepoint(
+        this.type,
+        `sp${++savepoints}`,
+        statement => transaction.request().query(statement),
+        () => fn(tx)
+      ),
       commit: async () => {
         await transaction.commit()
       },
@@ -191,6 +343,8 @@ export class MSSQLConnection implements IDatabase {
         await transaction.rollback()
       }
     }
+
+    return tx
   }
 
   /**
@@ -212,24 +366,63 @@ export class MSSQLConnection implements IDatabase {
 
   /**
    * Get connection statistics
+   * Read from the tarn pool that mssql keeps behind ConnectionPool.
    */
   getStats(): ConnectionStats {
-    if (!this.pool) {
+    const counters = this.stats.snapshot()
+    const max = this.config.pool?.max || 10
+    const tarnPool = (this.pool as any)?.pool
+
+    if (!tarnPool) {
       return {
         active: 0,
         idle: 0,
         total: 0,
-        waiting: 0
+        waiting: 0,
+        max,
+        errors: counters.errors,
+        counters
       }
     }
 
-    // MSSQL doesn't provide detailed pool stats directly
-    // These are approximations based on pool configuration
+    const active = tarnPool.numUsed()
+    const idle = tarnPool.numFree()
+
     return {
-      active: this.connected ? 1 : 0,
-      idle: this.connected ? (this.config.pool?.min || 0) : 0,
-      total: this.config.pool?.max || 10,
-      waiting: 0
+      active,
+      idle,
+      total: active + idle,
+      waiting: tarnPool.numPendingAcquires(),
+      max,
+      errors: counters.errors,
+      counters
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Times every connection acquire through the tarn pool's events
+   * Failed acquires surface as query errors and are counted there.
+   */
+  private trackAcquires(): void {
+    const tarnPool = (this.pool as any)?.pool
+    if (!tarnPool) {
+      return
+    }
+
+    const requestedAt = new Map<number, number>()
+
+    tarnPool.on('acquireRequest', (eventId: number) => {
+      requestedAt.set(eventId, Date.now())
+    })
+    tarnPool.on('acquireSuccess', (eventId: number) => {
+      const startedAt = requestedAt.get(eventId)
+      requestedAt.delete(eventId)
+      if (startedAt !== undefined) {
+        this.stats.recordAcquire(Date.now() - startedAt)
+      }
+    })
+    tarnPool.on('acquireFail', (eventId: number) => {
+      requestedAt.delete(eventId)
+    })
+  }
+}
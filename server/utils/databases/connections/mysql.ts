@@ -3,6 +3,7 @@
  */
 
 import mysql, { Pool, PoolConnection } from 'mysql2/promise'
+import type { Connection as CoreConnection } from 'mysql2'
 import consola from 'consola'
 import {
   IDatabase,
@@ -12,8 +13,15 @@ import {
   Transaction,
   ConnectionStats,
   ResultAdapter,
-  DatabaseError
+  DatabaseError,
+  QueryOptions,
+  TransactionOptions
 } from '../interfaces'
+import { QueryStatsCollector } from '../stats'
+import { isolationLevelSql, runInSavepoint } from '../transactions'
+import { runCancellable, streamCancellable, STREAM_HIGH_WATER_MARK } from '../cancellation'
+import { parameterValue } from '../parameters'
+import { databaseEvents, trackQuery, trackStream, type TrackedQuery } from '../events'
 
 /**
  * MySQL database connection class
@@ -24,9 +32,12 @@ export class MySQLConnection implements IDatabase {
   private config: mysql.PoolOptions
   private pool: Pool | null = null
   private connected = false
+  private stats = new QueryStatsCollector()
+  private queryTimeoutMs: number
 
   constructor(config: MySQLConfig) {
     this.name = config.name
+    this.queryTimeoutMs = config.queryTimeoutMs ?? 0
 
     // Build MySQL config from our config interface
     this.config = {
@@ -61,8 +72,10 @@ export class MySQLConnection implements IDatabase {
 
       this.connected = true
       consola.success(`[${this.name}] MySQL connection established`)
+      databaseEvents.emit('connect', { database: this.name, type: this.type })
     } catch (error) {
       consola.error(`[${this.name}] MySQL connection failed:`, error)
+      databaseEvents.emit('error', { database: this.name, type: this.type, error: error as Error })
       throw new DatabaseError(
         `Failed to connect to database: ${this.name}`,
         this.name,
@@ -85,6 +98,7 @@ export class MySQLConnection implements IDatabase {
       this.pool = null
       this.connected = false
       consola.info(`[${this.name}] MySQL connection closed`)
+      databaseEvents.emit('disconnect', { database: this.name, type: this.type })
     } catch (error) {
       consola.error(`[${this.name}] Error closing MySQL connection:`, error)
       throw new DatabaseError(
@@ -99,11 +113,12 @@ export class MySQLConnection implements IDatabase {
   /**
    * Execute a query with parameters
    */
-  async query<T = any>(sql: string, params?: any): Promise<QueryResult<T>> {
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const tracked = trackQuery(this, 'query', sql, params, options)
     try {
       // Convert named parameters to positional if needed
       let values: any[] | undefined
@@ -112,12 +127,27 @@ export class MySQLConnection implements IDatabase {
         sql = converted.sql
         values = converted.values
       } else {
-        values = params
+        values = Array.isArray(params) ? params.map(parameterValue) : params
       }
 
-      const [rows, fields] = await this.pool!.execute<T[]>(sql, values)
-      return ResultAdapter.fromMySQL(rows, fields)
+      const [rows, fields] = await runCancellable(this.name, options, this.queryTimeoutMs, async (onCancel) => {
+        const connection = await this.acquire()
+        let cancelled = false
+        try {
+          onCancel(() => {
+            cancelled = true
+            return this.killQuery(connection.threadId)
+          })
+          this.stats.recordQuery()
+          return await connection.execute<T[]>(sql, values)
+        } finally {
+          this.releaseConnection(connection, cancelled)
+        }
+      })
+      return tracked.end(ResultAdapter.fromMySQL(rows, fields))
     } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Query error:`, error)
       throw new DatabaseError(
         `Query failed on database: ${this.name}`,
@@ -128,23 +158,86 @@ export class MySQLConnection implements IDatabase {
     }
   }
 
+  /**
+   * Stream the rows of a query
+   * mysql2 pauses the connection whenever the consumer falls behind. A
+   * connection left mid-result is destroyed rather than returned to the pool.
+   */
+  async *stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncGenerator<T> {
+    if (!this.pool || !this.connected) {
+      await this.connect()
+    }
+
+    const tracked = trackQuery(this, 'stream', sql, params, options)
+    let values: any[] | undefined
+    if (params && typeof params === 'object' && !Array.isArray(params)) {
+      const converted = this.convertNamedParams(sql, params)
+      sql = converted.sql
+      values = converted.values
+    } else {
+      values = Array.isArray(params) ? params.map(parameterValue) : params
+    }
+
+    try {
+      yield* trackStream(tracked, streamCancellable<T>(this.name, options, async () => {
+        const connection = await this.acquire()
+        // Streaming is only available on the callback connection behind the
+        // promise wrapper (typed as the wrapper in mysql2's declarations)
+        const core = connection.connection as unknown as CoreConnection
+        const rows = core.query(sql, values).stream({ highWaterMark: STREAM_HIGH_WATER_MARK })
+        this.stats.recordQuery()
+
+        return {
+          rows,
+          cancel: () => this.killQuery(connection.threadId),
+          close: (completed: boolean) => completed ? connection.release() : connection.destroy()
+        }
+      }))
+    } catch (error) {
+      this.stats.recordError(error)
+      consola.error(`[${this.name}] Stream error:`, error)
+      throw new DatabaseError(
+        `Query failed on database: ${this.name}`,
+        this.name,
+        this.type,
+        error as Error
+      )
+    }
+  }
+
   /**
    * Execute a stored procedure
    */
-  async execute<T = any>(procedure: string, params?: any): Promise<QueryResult<T>> {
+  async execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const sql = this.callStatement(procedure, params)
+    const tracked = trackQuery(this, 'execute', sql, params, options)
     try {
-      const sql = `CALL ${procedure}(${params?.length ? params.map(() => '?').join(', ') : ''})`
-      const [results] = await this.pool!.execute<any>(sql, params)
+      const [results] = await runCancellable(this.name, options, this.queryTimeoutMs, async (onCancel) => {
+        const connection = await this.acquire()
+        let cancelled = false
+        try {
+          onCancel(() => {
+            cancelled = true
+            return this.killQuery(connection.threadId)
+          })
+          this.stats.recordQuery()
+          return await connection.execute<any>(sql, params?.map(parameterValue))
+        } finally {
+          this.releaseConnection(connection, cancelled)
+        }
+      })
 
       // MySQL stored procedures return results differently
       // First element is usually the result set
       const rows = results[0] || []
-      return ResultAdapter.fromMySQL(rows)
+      return tracked.end(ResultAdapter.fromMySQL(rows))
     } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Stored procedure error:`, error)
       throw new DatabaseError(
         `Stored procedure failed on database: ${this.name}`,
@@ -158,53 +251,98 @@ export class MySQLConnection implements IDatabase {
   /**
    * Begin a transaction
    */
-  async beginTransaction(): Promise<Transaction> {
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
-    const connection = await this.pool!.getConnection()
-    await connection.beginTransaction()
+    const isolationLevel = options?.isolationLevel && isolationLevelSql(this.name, this.type, options.isolationLevel)
 
-    return {
-      query: async <T = any>(sql: string, params?: any): Promise<QueryResult<T>> => {
-        try {
-          // Convert named parameters if needed
-          let values: any[] | undefined
-          if (params && typeof params === 'object' && !Array.isArray(params)) {
-            const converted = this.convertNamedParams(sql, params)
-            sql = converted.sql
-            values = converted.values
-          } else {
-            values = params
-          }
-
-          const [rows, fields] = await connection.execute<T[]>(sql, values)
-          return ResultAdapter.fromMySQL(rows, fields)
-        } catch (error) {
-          throw new DatabaseError(
-            `Transaction query failed on database: ${this.name}`,
-            this.name,
-            this.type,
-            error as Error
-          )
+    const connection = await this.acquire()
+    try {
+      // Applies to the next transaction on this connection only
+      if (isolationLevel) {
+        await connection.query(`SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`)
+      }
+      await connection.beginTransaction()
+    } catch (error) {
+      connection.release()
+      throw error
+    }
+
+    // Set once a statement has been killed; the connection is then destroyed at the end
+    let cancelled = false
+
+    const run = async (sql: string, values: any[] | undefined, options: QueryOptions | undefined, tracked: TrackedQuery, message: string) => {
+      try {
+        this.stats.recordQuery()
+        return await runCancellable(this.name, options, this.queryTimeoutMs, (onCancel) => {
+          onCancel(() => {
+            cancelled = true
+            return this.killQuery(connection.threadId)
+          })
+          return connection.execute<any>(sql, values)
+        })
+      } catch (error) {
+        tracked.fail(error)
+        this.stats.recordError(error)
+        throw new DatabaseError(
+          `${message} on database: ${this.name}`,
+          this.name,
+          this.type,
+          error as Error
+        )
+      }
+    }
+
+    let savepoints = 0
+    const tx: Transaction = {
+      query: async <T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const tracked = trackQuery(this, 'query', sql, params, options)
+
+        // Convert named parameters if needed
+        let values: any[] | undefined
+        if (params && typeof params === 'object' && !Array.isArray(params)) {
+          const converted = this.convertNamedParams(sql, params)
+          sql = converted.sql
+          values = converted.values
+        } else {
+          values = Array.isArray(params) ? params.map(parameterValue) : params
         }
+
+        const [rows, fields] = await run(sql, values, options, tracked, 'Transaction query failed')
+        return tracked.end(ResultAdapter.fromMySQL(rows, fields))
+      },
+      execute: async <T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const sql = this.callStatement(procedure, params)
+        const tracked = trackQuery(this, 'execute', sql, params, options)
+        const [results] = await run(sql, params?.map(parameterValue), options, tracked, 'Transaction stored procedure failed')
+        return tracked.end(ResultAdapter.fromMySQL(results[0] || []))
       },
+      // Savepoint statements take no parameters, so they skip the prepared statement cache
+      savepoint: fn => runInSavepoint(
+        this.type,
+        `sp${++savepoints}`,
+        statement => connection.query(statement),
+        () => fn(tx)
+      ),
       commit: async () => {
         try {
           await connection.commit()
         } finally {
-          connection.release()
+          this.releaseConnection(connection, cancelled)
         }
       },
       rollback: async () => {
         try {
           await connection.rollback()
         } finally {
-          connection.release()
+          this.releaseConnection(connection, cancelled)
         }
       }
     }
+
+    return tx
   }
 
   /**
@@ -228,43 +366,100 @@ export class MySQLConnection implements IDatabase {
 
   /**
    * Get connection statistics
+   * Read from the core mysql2 pool behind the promise wrapper.
    */
   getStats(): ConnectionStats {
-    if (!this.pool) {
+    const counters = this.stats.snapshot()
+    const max = this.config.connectionLimit || 10
+    const corePool = (this.pool as any)?.pool
+
+    if (!corePool) {
       return {
         active: 0,
         idle: 0,
         total: 0,
-        waiting: 0
+        waiting: 0,
+        max,
+        errors: counters.errors,
+        counters
       }
     }
 
-    // MySQL2 doesn't provide direct pool stats, these are approximations
+    const total = corePool._allConnections.length
+    const idle = corePool._freeConnections.length
+
     return {
-      active: this.connected ? 1 : 0,
-      idle: this.connected ? (this.config.connectionLimit || 10) - 1 : 0,
-      total: this.config.connectionLimit || 10,
-      waiting: 0
+      active: total - idle,
+      idle,
+      total,
+      waiting: corePool._connectionQueue.length,
+      max,
+      errors: counters.errors,
+      counters
     }
   }
 
+  /**
+   * Takes a connection from the pool, timing the wait
+   */
+  private async acquire(): Promise<PoolConnection> {
+    const startedAt = Date.now()
+    const connection = await this.pool!.getConnection()
+    this.stats.recordAcquire(Date.now() - startedAt)
+    return connection
+  }
+
+  /**
+   * Stops the statement running on a pooled connection
+   * KILL QUERY is sent over a separate connection so it isn't queued behind a
+   * busy pool. It can arrive after the statement has finished, so the pooled
+   * connection is destroyed afterwards rather than released (see releaseConnection).
+   */
+  private async killQuery(threadId: number): Promise<void> {
+    const { host, port, user, password } = this.config
+    const connection = await mysql.createConnection({ host, port, user, password, connectTimeout: 5000 })
+    try {
+      await connection.query('KILL QUERY ?', [threadId])
+    } finally {
+      await connection.end()
+    }
+  }
+
+  /**
+   * Return a connection to the pool, or destroy it if a statement on it was killed
+   * A late KILL QUERY must not stop whatever query the pool hands the
+   * connection to next.
+   */
+  private releaseConnection(connection: PoolConnection, cancelled: boolean): void {
+    if (cancelled) {
+      connection.destroy()
+    } else {
+      connection.release()
+    }
+  }
+
+  /**
+   * The CALL statement for a stored procedure with positional parameters
+   */
+  private callStatement(procedure: string, params?: any[]): string {
+    return `CALL ${procedure}(${params?.length ? params.map(() => '?').join(', ') : ''})`
+  }
+
   /**
    * Convert named parameters to positional parameters
    */
   private convertNamedParams(sql: string, params: Record<string, any>): { sql: string; values: any[] } {
     const values: any[] = []
-    let formattedSql = sql
 
-    // Sort parameter names by length (longest first) to avoid partial replacements
-    const sortedParams = Object.keys(params).sort((a, b) => b.length - a.length)
-
-    for (const key of sortedParams) {
-      const regex = new RegExp(`:${key}\\b`, 'g')
-      formattedSql = formattedSql.replace(regex, () => {
-        values.push(params[key])
-        return '?'
-      })
-    }
+    // Values are collected in the order the placeholders appear, matching the
+    // positional ? markers; names that are not parameters are left alone
+    const formattedSql = sql.replace(/(?<!:):([A-Za-z_]\w*)/g, (placeholder, key: string) => {
+      if (!Object.hasOwn(params, key)) {
+        return placeholder
+      }
+      values.push(parameterValue(params[key]))
+      return '?'
+    })
 
     return { sql: formattedSql, values }
   }
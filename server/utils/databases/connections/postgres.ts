@@ -3,6 +3,7 @@
  */
 
 import pg, { Pool, PoolClient, QueryResult as PgQueryResult } from 'pg'
+import Cursor from 'pg-cursor'
 import consola from 'consola'
 import {
   IDatabase,
@@ -12,8 +13,15 @@ import {
   Transaction,
   ConnectionStats,
   ResultAdapter,
-  DatabaseError
+  DatabaseError,
+  QueryOptions,
+  TransactionOptions
 } from '../interfaces'
+import { QueryStatsCollector } from '../stats'
+import { isolationLevelSql, runInSavepoint } from '../transactions'
+import { runCancellable, streamCancellable, STREAM_HIGH_WATER_MARK } from '../cancellation'
+import { parameterValue } from '../parameters'
+import { databaseEvents, trackQuery, trackStream, type TrackedQuery } from '../events'
 
 /**
  * PostgreSQL database connection class
@@ -24,9 +32,14 @@ export class PostgreSQLConnection implements IDatabase {
   private config: pg.PoolConfig
   private pool: Pool | null = null
   private connected = false
+  private stats = new QueryStatsCollector()
+  private queryTimeoutMs: number
 
   constructor(config: PostgreSQLConfig) {
     this.name = config.name
+    // query_timeout is pg's client-side timeout, which leaves the statement
+    // running; it is enforced here with a server-side cancel instead
+    this.queryTimeoutMs = config.queryTimeoutMs ?? config.query_timeout ?? 0
 
     // Build PostgreSQL config from our config interface
     this.config = {
@@ -40,8 +53,7 @@ export class PostgreSQLConnection implements IDatabase {
       idleTimeoutMillis: config.poolConfig?.idleTimeoutMillis || 30000,
       connectionTimeoutMillis: config.poolConfig?.connectionTimeoutMillis || 2000,
       ssl: config.ssl || false,
-      statement_timeout: config.statement_timeout,
-      query_timeout: config.query_timeout
+      statement_timeout: config.statement_timeout
     }
   }
 
@@ -63,13 +75,16 @@ export class PostgreSQLConnection implements IDatabase {
 
       this.connected = true
       consola.success(`[${this.name}] PostgreSQL connection established`)
+      databaseEvents.emit('connect', { database: this.name, type: this.type })
 
       // Handle pool errors
       this.pool.on('error', (err) => {
         consola.error(`[${this.name}] PostgreSQL pool error:`, err)
+        databaseEvents.emit('error', { database: this.name, type: this.type, error: err })
       })
     } catch (error) {
       consola.error(`[${this.name}] PostgreSQL connection failed:`, error)
+      databaseEvents.emit('error', { database: this.name, type: this.type, error: error as Error })
       throw new DatabaseError(
         `Failed to connect to database: ${this.name}`,
         this.name,
@@ -92,6 +107,7 @@ export class PostgreSQLConnection implements IDatabase {
       this.pool = null
       this.connected = false
       consola.info(`[${this.name}] PostgreSQL connection closed`)
+      databaseEvents.emit('disconnect', { database: this.name, type: this.type })
     } catch (error) {
       consola.error(`[${this.name}] Error closing PostgreSQL connection:`, error)
       throw new DatabaseError(
@@ -106,11 +122,12 @@ export class PostgreSQLConnection implements IDatabase {
   /**
    * Execute a query with parameters
    */
-  async query<T = any>(sql: string, params?: any): Promise<QueryResult<T>> {
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const tracked = trackQuery(this, 'query', sql, params, options)
     try {
       // Convert named parameters to positional if needed
       let values: any[] | undefined
@@ -119,12 +136,28 @@ export class PostgreSQLConnection implements IDatabase {
         sql = converted.sql
         values = converted.values
       } else {
-        values = params
+        values = Array.isArray(params) ? params.map(parameterValue) : params
       }
 
-      const result = await this.pool!.query<T>(sql, values)
-      return ResultAdapter.fromPostgreSQL(result as any)
+      const result = await runCancellable(this.name, options, this.queryTimeoutMs, async (onCancel) => {
+        const client = await this.acquire()
+        let cancelled = false
+        try {
+          onCancel(() => {
+            cancelled = true
+            return this.cancelBackend(client)
+          })
+          this.stats.recordQuery()
+          return await client.query<T>(sql, values)
+        } finally {
+          // A cancelled client is discarded rather than returned to the pool
+          client.release(cancelled)
+        }
+      })
+      return tracked.end(ResultAdapter.fromPostgreSQL(result as any))
     } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Query error:`, error)
       throw new DatabaseError(
         `Query failed on database: ${this.name}`,
@@ -136,21 +169,91 @@ export class PostgreSQLConnection implements IDatabase {
   }
 
   /**
-   * Execute a stored procedure (PostgreSQL uses functions)
+   * Stream the rows of a query through a server-side cursor
+   * The next batch is only fetched once the consumer has taken the last one.
    */
-  async execute<T = any>(procedure: string, params?: any): Promise<QueryResult<T>> {
+  async *stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncGenerator<T> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
+    const tracked = trackQuery(this, 'stream', sql, params, options)
+    let values: any[] | undefined
+    if (params && typeof params === 'object' && !Array.isArray(params)) {
+      const converted = this.convertNamedParams(sql, params)
+      sql = converted.sql
+      values = converted.values
+    } else {
+      values = Array.isArray(params) ? params.map(parameterValue) : params
+    }
+
     try {
-      // PostgreSQL calls functions with SELECT or CALL
-      const placeholders = params?.length ? params.map((_, i: number) => `$${i + 1}`).join(', ') : ''
-      const sql = `SELECT * FROM ${procedure}(${placeholders})`
+      yield* trackStream(tracked, streamCancellable<T>(this.name, options, async () => {
+        const client = await this.acquire()
+        const cursor = client.query(new Cursor<T>(sql, values))
+        let cancelled = false
+        this.stats.recordQuery()
 
-      const result = await this.pool!.query<T>(sql, params)
-      return ResultAdapter.fromPostgreSQL(result as any)
+        return {
+          rows: this.readCursor(cursor),
+          cancel: () => {
+            cancelled = true
+            return this.cancelBackend(client)
+          },
+          close: async () => {
+            try {
+              await cursor.close()
+              // A cancelled client is discarded rather than returned to the pool
+              client.release(cancelled)
+            } catch (error) {
+              // Discard a client whose cursor could not be closed cleanly
+              client.release(error as Error)
+            }
+          }
+        }
+      }))
     } catch (error) {
+      this.stats.recordError(error)
+      consola.error(`[${this.name}] Stream error:`, error)
+      throw new DatabaseError(
+        `Query failed on database: ${this.name}`,
+        this.name,
+        this.type,
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Execute a stored procedure (PostgreSQL uses functions)
+   */
+  async execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    if (!this.pool || !this.connected) {
+      await this.connect()
+    }
+
+    const sql = this.callStatement(procedure, params)
+    const tracked = trackQuery(this, 'execute', sql, params, options)
+    try {
+      const result = await runCancellable(this.name, options, this.queryTimeoutMs, async (onCancel) => {
+        const client = await this.acquire()
+        let cancelled = false
+        try {
+          onCancel(() => {
+            cancelled = true
+            return this.cancelBackend(client)
+          })
+          this.stats.recordQuery()
+          return await client.query<T>(sql, params?.map(parameterValue))
+        } finally {
+          // A cancelled client is discarded rather than returned to the pool
+          client.release(cancelled)
+        }
+      })
+      return tracked.end(ResultAdapter.fromPostgreSQL(result as any))
+    } catch (error) {
+      tracked.fail(error)
+      this.stats.recordError(error)
       consola.error(`[${this.name}] Function call error:`, error)
       throw new DatabaseError(
         `Function call failed on database: ${this.name}`,
@@ -164,53 +267,91 @@ export class PostgreSQLConnection implements IDatabase {
   /**
    * Begin a transaction
    */
-  async beginTransaction(): Promise<Transaction> {
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
     if (!this.pool || !this.connected) {
       await this.connect()
     }
 
-    const client = await this.pool!.connect()
-    await client.query('BEGIN')
+    const isolationLevel = options?.isolationLevel && isolationLevelSql(this.name, this.type, options.isolationLevel)
 
-    return {
-      query: async <T = any>(sql: string, params?: any): Promise<QueryResult<T>> => {
-        try {
-          // Convert named parameters if needed
-          let values: any[] | undefined
-          if (params && typeof params === 'object' && !Array.isArray(params)) {
-            const converted = this.convertNamedParams(sql, params)
-            sql = converted.sql
-            values = converted.values
-          } else {
-            values = params
-          }
+    const client = await this.acquire()
+    try {
+      await client.query(isolationLevel ? `BEGIN ISOLATION LEVEL ${isolationLevel}` : 'BEGIN')
+    } catch (error) {
+      client.release()
+      throw error
+    }
+
+    // Set once a statement has been cancelled; the client is then discarded at the end
+    let cancelled = false
+
+    const run = async <T>(sql: string, values: any[] | undefined, options: QueryOptions | undefined, tracked: TrackedQuery, message: string): Promise<QueryResult<T>> => {
+      try {
+        this.stats.recordQuery()
+        const result = await runCancellable(this.name, options, this.queryTimeoutMs, (onCancel) => {
+          onCancel(() => {
+            cancelled = true
+            return this.cancelBackend(client)
+          })
+          return client.query<T>(sql, values)
+        })
+        return tracked.end(ResultAdapter.fromPostgreSQL(result as any))
+      } catch (error) {
+        tracked.fail(error)
+        this.stats.recordError(error)
+        throw new DatabaseError(
+          `${message} on database: ${this.name}`,
+          this.name,
+          this.type,
+          error as Error
+        )
+      }
+    }
+
+    let savepoints = 0
+    const tx: Transaction = {
+      query: async <T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const tracked = trackQuery(this, 'query', sql, params, options)
 
-          const result = await client.query<T>(sql, values)
-          return ResultAdapter.fromPostgreSQL(result as any)
-        } catch (error) {
-          throw new DatabaseError(
-            `Transaction query failed on database: ${this.name}`,
-            this.name,
-            this.type,
-            error as Error
-          )
+        // Convert named parameters if needed
+        let values: any[] | undefined
+        if (params && typeof params === 'object' && !Array.isArray(params)) {
+          const converted = this.convertNamedParams(sql, params)
+          sql = converted.sql
+          values = converted.values
+        } else {
+          values = Array.isArray(params) ? params.map(parameterValue) : params
         }
+
+        return run<T>(sql, values, options, tracked, 'Transaction query failed')
+      },
+      execute: async <T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const sql = this.callStatement(procedure, params)
+        return run<T>(sql, params?.map(parameterValue), options, trackQuery(this, 'execute', sql, params, options), 'Transaction function call failed')
       },
+      savepoint: fn => runInSavepoint(
+        this.type,
+        `sp${++savepoints}`,
+        statement => client.query(statement),
+        () => fn(tx)
+      ),
       commit: async () => {
         try {
           await client.query('COMMIT')
         } finally {
-          client.release()
+          client.release(cancelled)
         }
       },
       rollback: async () => {
         try {
           await client.query('ROLLBACK')
         } finally {
-          client.release()
+          client.release(cancelled)
         }
       }
     }
+
+    return tx
   }
 
   /**
@@ -234,25 +375,81 @@ export class PostgreSQLConnection implements IDatabase {
    * Get connection statistics
    */
   getStats(): ConnectionStats {
+    const counters = this.stats.snapshot()
+    const max = this.config.max || 10
+
     if (!this.pool) {
       return {
         active: 0,
         idle: 0,
         total: 0,
-        waiting: 0
+        waiting: 0,
+        max,
+        errors: counters.errors,
+        counters
       }
     }
 
-    // PostgreSQL pool provides some stats
-    const poolStats = (this.pool as any)
     return {
-      active: poolStats.totalCount || 0,
-      idle: poolStats.idleCount || 0,
-      total: this.config.max || 10,
-      waiting: poolStats.waitingCount || 0
+      active: this.pool.totalCount - this.pool.idleCount,
+      idle: this.pool.idleCount,
+      total: this.pool.totalCount,
+      waiting: this.pool.waitingCount,
+      max,
+      errors: counters.errors,
+      counters
     }
   }
 
+  /**
+   * Checks a client out of the pool, timing the wait
+   */
+  private async acquire(): Promise<PoolClient> {
+    const startedAt = Date.now()
+    const client = await this.pool!.connect()
+    this.stats.recordAcquire(Date.now() - startedAt)
+    return client
+  }
+
+  /**
+   * Reads a cursor batch by batch
+   */
+  private async *readCursor<T>(cursor: Cursor<T>): AsyncGenerator<T> {
+    while (true) {
+      const batch = await cursor.read(STREAM_HIGH_WATER_MARK)
+      if (batch.length === 0) {
+        return
+      }
+      yield* batch
+    }
+  }
+
+  /**
+   * Stops the statement running on a pooled client
+   * pg_cancel_backend is sent over a separate connection so it isn't queued
+   * behind a busy pool. It can arrive after the statement has finished, so
+   * the pooled client is discarded afterwards rather than released: a late
+   * cancel must not stop whatever query the pool hands the client to next.
+   */
+  private async cancelBackend(client: PoolClient): Promise<void> {
+    const canceller = new pg.Client({ ...this.config, connectionTimeoutMillis: 5000 })
+    await canceller.connect()
+    try {
+      await canceller.query('SELECT pg_cancel_backend($1)', [(client as any).processID])
+    } finally {
+      await canceller.end()
+    }
+  }
+
+  /**
+   * The statement calling a function with positional parameters
+   * PostgreSQL calls functions with SELECT (procedures would use CALL)
+   */
+  private callStatement(procedure: string, params?: any[]): string {
+    const placeholders = params?.length ? params.map((_, i: number) => `$${i + 1}`).join(', ') : ''
+    return `SELECT * FROM ${procedure}(${placeholders})`
+  }
+
   /**
    * Convert named parameters to positional parameters for PostgreSQL
    */
@@ -267,7 +464,7 @@ export class PostgreSQLConnection implements IDatabase {
     for (const key of sortedParams) {
       const regex = new RegExp(`:${key}\\b`, 'g')
       formattedSql = formattedSql.replace(regex, () => {
-        values.push(params[key])
+        values.push(parameterValue(params[key]))
         return `$${paramIndex++}`
       })
     }
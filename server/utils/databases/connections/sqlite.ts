@@ -0,0 +1,379 @@
+/**
+ * SQLite database connection implementation
+ * An in-memory database for running the API without a database server, on a
+ * laptop or in CI. It is built from the configured seed files on connect, so
+ * every start begins from the same data. Tables live in an attached `dbo`
+ * schema, and `@name` and `:name` parameters both work, so the SQL written
+ * for SQL Server and by the query builder runs unchanged.
+ */
+
+import { readFileSync } from 'fs'
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue, type ParamsObject } from 'sql.js'
+import consola from 'consola'
+import {
+  IDatabase,
+  DatabaseType,
+  SQLiteConfig,
+  QueryResult,
+  Transaction,
+  ConnectionStats,
+  ResultAdapter,
+  DatabaseError,
+  QueryOptions,
+  TransactionOptions
+} from '../interfaces'
+import { QueryStatsCollector } from '../stats'
+import { classifySQLiteError } from '../errors'
+import { isolationLevelSql, runInSavepoint } from '../transactions'
+import { runCancellable, streamCancellable, STREAM_HIGH_WATER_MARK } from '../cancellation'
+import { parameterValue } from '../parameters'
+import { databaseEvents, trackQuery, trackStream } from '../events'
+
+// The WebAssembly module is loaded once and shared by every SQLite database
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+/**
+ * SQLite database connection class
+ * There is a single connection. A transaction has it to itself: statements
+ * from outside the transaction wait until it commits or rolls back.
+ */
+export class SQLiteConnection implements IDatabase {
+  public readonly name: string
+  public readonly type = DatabaseType.SQLite
+  private seed: string[]
+  private database: Database | null = null
+  private transaction: Promise<void> | null = null
+  private stats = new QueryStatsCollector()
+  private queryTimeoutMs: number
+
+  constructor(config: SQLiteConfig) {
+    this.name = config.name
+    this.seed = config.seed ?? []
+    this.queryTimeoutMs = config.queryTimeoutMs ?? 0
+  }
+
+  /**
+   * Create the database and run the seed files
+   */
+  async connect(): Promise<void> {
+    if (this.database) {
+      return
+    }
+
+    let database: Database | null = null
+    try {
+      sqlJs ??= initSqlJs()
+      database = new (await sqlJs).Database()
+      database.exec(`ATTACH DATABASE ':memory:' AS dbo`)
+
+      for (const file of this.seed) {
+        try {
+          database.exec(toSQLite(readFileSync(file, 'utf-8')))
+        } catch (error: any) {
+          throw new Error(`${file}: ${error.message}`, { cause: error })
+        }
+      }
+
+      this.database = database
+      consola.success(`[${this.name}] SQLite database created from ${this.seed.length} seed file(s)`)
+      databaseEvents.emit('connect', { database: this.name, type: this.type })
+    } catch (error) {
+      database?.close()
+      consola.error(`[${this.name}] SQLite database could not be created:`, error)
+      databaseEvents.emit('error', { database: this.name, type: this.type, error: error as Error })
+      throw new DatabaseError(
+        `Failed to connect to database: ${this.name}`,
+        this.name,
+        this.type,
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Close the database; its data is discarded
+   */
+  async disconnect(): Promise<void> {
+    if (!this.database) {
+      return
+    }
+
+    this.database.close()
+    this.database = null
+    consola.info(`[${this.name}] SQLite database closed`)
+    databaseEvents.emit('disconnect', { database: this.name, type: this.type })
+  }
+
+  /**
+   * Execute a query with parameters
+   */
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    if (!this.database) {
+      await this.connect()
+    }
+
+    const tracked = trackQuery(this, 'query', sql, params, options)
+    try {
+      return tracked.end(await runCancellable(this.name, options, this.queryTimeoutMs, async (onCancel) => {
+        await this.waitForTransaction()
+        // Statements run synchronously, so there is nothing to cancel once one starts
+        onCancel(() => {})
+        return this.run<T>(sql, params)
+      }))
+    } catch (error) {
+      tracked.fail(error)
+      throw this.queryError(error, 'Query failed')
+    }
+  }
+
+  /**
+   * Stream the rows of a query, stepping the statement as rows are consumed
+   */
+  async *stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncGenerator<T> {
+    if (!this.database) {
+      await this.connect()
+    }
+
+    try {
+      yield* trackStream(trackQuery(this, 'stream', sql, params, options), streamCancellable<T>(this.name, options, async () => {
+        await this.waitForTransaction()
+
+        const statement = this.database!.prepare(sql)
+        try {
+          statement.bind(bindParams(params))
+        } catch (error) {
+          statement.free()
+          throw error
+        }
+        this.stats.recordQuery()
+
+        async function* rows(): AsyncGenerator<T> {
+          for (let count = 1; statement.step(); count++) {
+            yield statement.getAsObject() as T
+            // Let other requests run between batches
+            if (count % STREAM_HIGH_WATER_MARK === 0) {
+              await new Promise(resolve => setImmediate(resolve))
+            }
+          }
+        }
+
+        return {
+          rows: rows(),
+          // Rows are only read on demand, so stopping the reader stops the query
+          cancel: () => {},
+          close: () => statement.free()
+        }
+      }))
+    } catch (error) {
+      throw this.queryError(error, 'Query failed')
+    }
+  }
+
+  /**
+   * SQLite has no stored procedures
+   */
+  async execute<T = any>(procedure: string): Promise<QueryResult<T>> {
+    throw new DatabaseError(
+      `Stored procedures are not supported on database: ${this.name} (${procedure})`,
+      this.name,
+      this.type
+    )
+  }
+
+  /**
+   * Begin a transaction
+   * SQLite transactions are serializable, which satisfies every isolation level
+   * it accepts.
+   */
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
+    if (!this.database) {
+      await this.connect()
+    }
+
+    if (options?.isolationLevel) {
+      isolationLevelSql(this.name, this.type, options.isolationLevel)
+    }
+
+    await this.waitForTransaction()
+    let end!: () => void
+    this.transaction = new Promise(resolve => (end = resolve))
+
+    const finish = (statement: string) => {
+      try {
+        this.database!.exec(statement)
+      } finally {
+        this.transaction = null
+        end()
+      }
+    }
+
+    try {
+      this.database!.exec('BEGIN')
+    } catch (error) {
+      this.transaction = null
+      end()
+      throw error
+    }
+
+    let savepoints = 0
+    const tx: Transaction = {
+      query: async <T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> => {
+        const tracked = trackQuery(this, 'query', sql, params, options)
+        try {
+          return tracked.end(await runCancellable(this.name, options, this.queryTimeoutMs, async () => this.run<T>(sql, params)))
+        } catch (error) {
+          tracked.fail(error)
+          throw this.queryError(error, 'Transaction query failed')
+        }
+      },
+      execute: async <T = any>(procedure: string): Promise<QueryResult<T>> => this.execute<T>(procedure),
+      savepoint: fn => runInSavepoint(
+        this.type,
+        `sp${++savepoints}`,
+        async statement => this.database!.exec(statement),
+        () => fn(tx)
+      ),
+      commit: async () => finish('COMMIT'),
+      rollback: async () => finish('ROLLBACK')
+    }
+
+    return tx
+  }
+
+  /**
+   * Test the connection
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      if (!this.database) {
+        await this.connect()
+      }
+
+      const result = this.database!.exec('SELECT 1 as test')
+      return result.length > 0
+    } catch (error) {
+      consola.error(`[${this.name}] Connection test failed:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Get connection statistics
+   * The single connection counts as active while a transaction holds it.
+   */
+  getStats(): ConnectionStats {
+    const counters = this.stats.snapshot()
+    const total = this.database ? 1 : 0
+    const active = this.transaction ? 1 : 0
+
+    return {
+      active,
+      idle: total - active,
+      total,
+      max: 1,
+      errors: counters.errors,
+      counters
+    }
+  }
+
+  /**
+   * Waits until no transaction holds the connection
+   */
+  private async waitForTransaction(): Promise<void> {
+    while (this.transaction) {
+      await this.transaction
+    }
+  }
+
+  /**
+   * Runs one statement and collects its rows
+   */
+  private run<T>(sql: string, params: any): QueryResult<T> {
+    const statement = this.database!.prepare(sql)
+    try {
+      statement.bind(bindParams(params))
+      this.stats.recordQuery()
+
+      const rows: T[] = []
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T)
+      }
+
+      return ResultAdapter.fromSQLite(rows, statement.getColumnNames(), this.database!.getRowsModified())
+    } finally {
+      statement.free()
+    }
+  }
+
+  /**
+   * Wraps a SQLite error, classifying it from its message
+   */
+  private queryError(error: unknown, message: string): DatabaseError {
+    this.stats.recordError(error)
+    consola.error(`[${this.name}] ${message}:`, error)
+    return new DatabaseError(
+      `${message} on database: ${this.name}`,
+      this.name,
+      this.type,
+      error as Error,
+      classifySQLiteError(error)
+    )
+  }
+}
+
+/**
+ * Makes SQL Server DDL acceptable to SQLite
+ * Drops `GO` batch separators and the `(max)` size of nvarchar(max) and
+ * varchar(max); SQLite ignores column sizes anyway.
+ */
+function toSQLite(sql: string): string {
+  return sql
+    .replace(/^\s*go\s*$/gim, '')
+    .replace(/\(\s*max\s*\)/gi, '')
+}
+
+/**
+ * Converts query parameters to values SQLite can bind
+ * Named parameters are bound under both `@name` and `:name`. Dates are bound
+ * as UTC text ('2025-09-01 14:30:00.000'), which sorts and compares like
+ * SQLite's own datetime format.
+ */
+function bindParams(params: any): SqlValue[] | ParamsObject | null {
+  if (params === undefined || params === null) {
+    return null
+  }
+
+  if (Array.isArray(params)) {
+    return params.map(sqliteValue)
+  }
+
+  const bound: ParamsObject = {}
+  for (const [key, param] of Object.entries(params)) {
+    const value = sqliteValue(param)
+    if (/^[@:$]/.test(key)) {
+      bound[key] = value
+    } else {
+      bound[`@${key}`] = value
+      bound[`:${key}`] = value
+    }
+  }
+  return bound
+}
+
+function sqliteValue(param: unknown): SqlValue {
+  const value = parameterValue(param)
+
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0
+  }
+  if (value instanceof Date) {
+    return value.toISOString().replace('T', ' ').replace('Z', '')
+  }
+  if (typeof value === 'number' || typeof value === 'string' || value instanceof Uint8Array) {
+    return value
+  }
+  return String(value)
+}
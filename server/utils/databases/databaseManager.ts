@@ -3,18 +3,25 @@
  */
 
 import consola from 'consola'
-import { IDatabase, DatabaseType, AnyDatabaseConfig, DatabaseError } from './interfaces'
+import { IDatabase, DatabaseType, AnyDatabaseConfig, DatabaseError, Transaction, TransactionOptions } from './interfaces'
 import { MSSQLConnection } from './connections/mssql'
 import { MySQLConnection } from './connections/mysql'
 import { PostgreSQLConnection } from './connections/postgres'
+import { SQLiteConnection } from './connections/sqlite'
+import { loadDatabaseConfigs } from './config'
+import { CircuitBreaker, ResilientConnection, type CircuitBreakerStatus } from './resilience'
+import { ReplicatedConnection, replicaName, type Replica, type ReplicaHealth } from './replicas'
+import { CachingConnection } from './cache'
 
 /**
  * Database Manager singleton class
  */
 export class DatabaseManager {
   private static instance: DatabaseManager
+  private initialized = false
   private connections: Map<string, IDatabase> = new Map()
   private configs: Map<string, AnyDatabaseConfig> = new Map()
+  private breakers: Map<string, CircuitBreaker> = new Map()
 
   /**
    * Private constructor for singleton pattern
@@ -40,6 +47,7 @@ export class DatabaseManager {
     }
 
     this.configs.set(config.name, config)
+    this.breakers.set(config.name, new CircuitBreaker(config.name, config.type, config.circuitBreaker))
     consola.info(`Database configuration '${config.name}' registered`)
   }
 
@@ -68,7 +76,9 @@ export class DatabaseManager {
       throw new DatabaseError(
         `Database '${name}' is disabled`,
         name,
-        config.type
+        config.type,
+        undefined,
+        'connection'
       )
     }
 
@@ -82,6 +92,46 @@ export class DatabaseManager {
     return connection
   }
 
+  /**
+   * Run a unit of work in a transaction
+   * Commits when `fn` resolves and rolls back when it throws, rethrowing the
+   * error. Use `tx.savepoint()` inside `fn` for work that may fail on its own.
+   * @example
+   * await db.withTransaction('default', async (tx) => {
+   *   await tx.query('UPDATE ...', params)
+   *   await tx.execute('dbo.AuditChange', params)
+   * }, { isolationLevel: 'serializable' })
+   */
+  async withTransaction<T>(
+    name: string,
+    fn: (tx: Transaction) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    const database = await this.get(name)
+    if (!database.beginTransaction) {
+      throw new DatabaseError(`Transactions are not supported on database: ${name}`, name, database.type)
+    }
+
+    const tx = await database.beginTransaction(options)
+
+    let result: T
+    try {
+      result = await fn(tx)
+    } catch (error) {
+      try {
+        await tx.rollback()
+      } catch (rollbackError) {
+        // The original error matters more; the server rolls back on its own
+        // if the transaction was already aborted
+        consola.warn(`Rollback failed for database '${name}':`, rollbackError)
+      }
+      throw error
+    }
+
+    await tx.commit()
+    return result
+  }
+
   /**
    * Get a database connection without connecting (for testing)
    */
@@ -98,6 +148,23 @@ export class DatabaseManager {
     return this.createConnection(config)
   }
 
+  /**
+   * Get the type of a registered database without connecting
+   * Lets callers compile SQL for the database before acquiring a connection.
+   */
+  getType(name: string): DatabaseType {
+    const config = this.configs.get(name)
+    if (!config) {
+      throw new DatabaseError(
+        `No configuration found for database: ${name}`,
+        name,
+        DatabaseType.MSSQL
+      )
+    }
+
+    return config.type
+  }
+
   /**
    * Check if a database is registered
    */
@@ -105,6 +172,14 @@ export class DatabaseManager {
     return this.configs.has(name)
   }
 
+  /**
+   * Check if a database is registered and not disabled
+   */
+  isEnabled(name: string): boolean {
+    const config = this.configs.get(name)
+    return !!config && config.enabled !== false
+  }
+
   /**
    * Check if a database is connected
    */
@@ -196,10 +271,69 @@ export class DatabaseManager {
     return stats
   }
 
+  /**
+   * Get the circuit breaker state of every registered database
+   */
+  getCircuitStates(): Record<string, CircuitBreakerStatus> {
+    const states: Record<string, CircuitBreakerStatus> = {}
+
+    for (const [name, breaker] of this.breakers.entries()) {
+      states[name] = breaker.getStatus()
+    }
+
+    return states
+  }
+
+  /**
+   * Test the read replicas of a database
+   * @returns The state of each replica (empty when it has none)
+   */
+  async checkReplicas(name: string): Promise<ReplicaHealth[]> {
+    const connection = (await this.get(name) as CachingConnection).inner
+    return connection instanceof ReplicatedConnection ? connection.checkReplicas() : []
+  }
+
   /**
    * Create a connection instance based on configuration type
+   * Every connection is wrapped with the database's circuit breaker and retry policy.
+   * Databases with replicas get a connection per replica, each with its own
+   * breaker, behind a router that sends reads to them. The query cache sits
+   * in front of both.
    */
   private createConnection(config: AnyDatabaseConfig): IDatabase {
+    return new CachingConnection(this.createRoutedConnection(config))
+  }
+
+  /**
+   * Create the primary connection, and the replica router when there are replicas
+   */
+  private createRoutedConnection(config: AnyDatabaseConfig): IDatabase {
+    const primary = new ResilientConnection(this.createDriverConnection(config), this.breakers.get(config.name)!, config.retry)
+    if (!config.replicas?.length) {
+      return primary
+    }
+
+    const replicas: Replica[] = config.replicas.map((replica, index) => {
+      const name = replicaName(config, replica, index)
+      const { maxLagSeconds, ...overrides } = replica
+      const replicaConfig = { ...config, ...overrides, name, replicas: undefined, replicaRoutes: undefined } as AnyDatabaseConfig
+      const breaker = new CircuitBreaker(name, config.type, config.circuitBreaker)
+
+      return {
+        name,
+        config: replica,
+        connection: new ResilientConnection(this.createDriverConnection(replicaConfig), breaker, config.retry),
+        breaker
+      }
+    })
+
+    return new ReplicatedConnection(primary, replicas, config.replicaRoutes ?? [])
+  }
+
+  /**
+   * Create the driver connection for a configuration type
+   */
+  private createDriverConnection(config: AnyDatabaseConfig): IDatabase {
     switch (config.type) {
       case DatabaseType.MSSQL:
         return new MSSQLConnection(config)
@@ -210,170 +344,41 @@ export class DatabaseManager {
       case DatabaseType.PostgreSQL:
         return new PostgreSQLConnection(config)
 
+      case DatabaseType.SQLite:
+        return new SQLiteConnection(config)
+
       default:
         throw new Error(`Unsupported database type: ${(config as any).type}`)
     }
   }
 
   /**
-   * Load configurations from environment variables
+   * Register every database from the config file, once
+   * Called by the databases plugin at startup; later calls do nothing.
+   * @returns Whether this call performed the initialization
    */
-  static loadFromEnvironment(): void {
+  static initialize(): boolean {
     const manager = DatabaseManager.getInstance()
-
-    // Intelligent Database (MSSQL)
-    if (process.env.DB_INTELLIGENT_DATABASE) {
-      manager.register({
-        name: 'intelligent',
-        type: DatabaseType.MSSQL,
-        server: process.env.DB_INTELLIGENT_SERVER || 'localhost',
-        port: parseInt(process.env.DB_INTELLIGENT_PORT || '1433'),
-        database: process.env.DB_INTELLIGENT_DATABASE,
-        user: process.env.DB_INTELLIGENT_USER || '',
-        password: process.env.DB_INTELLIGENT_PASSWORD || '',
-        encrypt: process.env.DB_INTELLIGENT_ENCRYPT === 'true',
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enabled: process.env.DB_INTELLIGENT_ENABLED !== 'false',
-        poolConfig: {
-          min: 2,
-          max: 10
-        }
-      })
-    }
-
-    // Logger Database (MSSQL) - Uses same server as intelligent with different database
-    if (process.env.DB_LOGGER_DATABASE) {
-      manager.register({
-        name: 'logger',
-        type: DatabaseType.MSSQL,
-        server: process.env.DB_LOGGER_SERVER || process.env.DB_SERVER || 'localhost',
-        port: parseInt(process.env.DB_LOGGER_PORT || process.env.DB_PORT || '1433'),
-        database: process.env.DB_LOGGER_DATABASE,
-        user: process.env.DB_LOGGER_USER || process.env.DB_USER || '',
-        password: process.env.DB_LOGGER_PASSWORD || process.env.DB_PASSWORD || '',
-        encrypt: process.env.DB_LOGGER_ENCRYPT === 'true' || process.env.DB_ENCRYPT === 'true',
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enabled: process.env.DB_LOGGER_ENABLED !== 'false',
-        poolConfig: {
-          min: 1,
-          max: 5
-        }
-      })
-    }
-
-    // Unity Logger Database (MSSQL)
-    if (process.env.DB_UNITY_LOGGER_DATABASE) {
-      manager.register({
-        name: 'unity-logger',
-        type: DatabaseType.MSSQL,
-        server: process.env.DB_UNITY_LOGGER_SERVER || process.env.DB_INTELLIGENT_SERVER || 'localhost',
-        port: parseInt(process.env.DB_UNITY_LOGGER_PORT || process.env.DB_INTELLIGENT_PORT || '1433'),
-        database: process.env.DB_UNITY_LOGGER_DATABASE,
-        user: process.env.DB_UNITY_LOGGER_USER || process.env.DB_INTELLIGENT_USER || '',
-        password: process.env.DB_UNITY_LOGGER_PASSWORD || process.env.DB_INTELLIGENT_PASSWORD || '',
-        encrypt: process.env.DB_UNITY_LOGGER_ENCRYPT === 'true' || process.env.DB_INTELLIGENT_ENCRYPT === 'true',
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enabled: process.env.DB_UNITY_LOGGER_ENABLED !== 'false',
-        poolConfig: {
-          min: 1,
-          max: 5
-        }
-      })
-    }
-
-    // MDR Database (MSSQL) - Future
-    if (process.env.DB_MDR_DATABASE) {
-      manager.register({
-        name: 'mdr',
-        type: DatabaseType.MSSQL,
-        server: process.env.DB_MDR_SERVER || process.env.DB_INTELLIGENT_SERVER || 'localhost',
-        port: parseInt(process.env.DB_MDR_PORT || process.env.DB_INTELLIGENT_PORT || '1433'),
-        database: process.env.DB_MDR_DATABASE,
-        user: process.env.DB_MDR_USER || process.env.DB_INTELLIGENT_USER || '',
-        password: process.env.DB_MDR_PASSWORD || process.env.DB_INTELLIGENT_PASSWORD || '',
-        encrypt: process.env.DB_MDR_ENCRYPT === 'true' || process.env.DB_INTELLIGENT_ENCRYPT === 'true',
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enabled: process.env.DB_MDR_ENABLED === 'true', // Default to disabled
-        poolConfig: {
-          min: 1,
-          max: 5
-        }
-      })
-    }
-
-    // Absentee Database (MySQL)
-    if (process.env.DB_ABSENTEE_DATABASE) {
-      manager.register({
-        name: 'absentee',
-        type: DatabaseType.MySQL,
-        host: process.env.DB_ABSENTEE_HOST || 'localhost',
-        port: parseInt(process.env.DB_ABSENTEE_PORT || '3306'),
-        database: process.env.DB_ABSENTEE_DATABASE,
-        user: process.env.DB_ABSENTEE_USER || '',
-        password: process.env.DB_ABSENTEE_PASSWORD || '',
-        enabled: process.env.DB_ABSENTEE_ENABLED !== 'false',
-        poolConfig: {
-          min: 2,
-          max: 8
-        }
-      })
+    if (manager.initialized) {
+      return false
     }
 
-    // Engage Database (PostgreSQL) - Future
-    if (process.env.DB_ENGAGE_DATABASE) {
-      manager.register({
-        name: 'engage',
-        type: DatabaseType.PostgreSQL,
-        host: process.env.DB_ENGAGE_HOST || 'localhost',
-        port: parseInt(process.env.DB_ENGAGE_PORT || '5432'),
-        database: process.env.DB_ENGAGE_DATABASE,
-        user: process.env.DB_ENGAGE_USER || '',
-        password: process.env.DB_ENGAGE_PASSWORD || '',
-        ssl: process.env.DB_ENGAGE_SSL === 'true',
-        enabled: process.env.DB_ENGAGE_ENABLED === 'true', // Default to disabled
-        poolConfig: {
-          min: 2,
-          max: 10
-        }
-      })
-    }
+    DatabaseManager.loadFromEnvironment()
+    manager.initialized = true
+    return true
+  }
 
-    // For backward compatibility - register the default SQL Server database
-    if (process.env.DB_DATABASE) {
-      manager.register({
-        name: 'default',
-        type: DatabaseType.MSSQL,
-        server: process.env.DB_SERVER || 'localhost',
-        port: parseInt(process.env.DB_PORT || '1433'),
-        database: process.env.DB_DATABASE,
-        user: process.env.DB_USER || '',
-        password: process.env.DB_PASSWORD || '',
-        encrypt: process.env.DB_ENCRYPT === 'true',
-        trustServerCertificate: process.env.NODE_ENV === 'development',
-        enabled: true,
-        poolConfig: {
-          min: 0,
-          max: 10
-        }
-      })
-    }
+  /**
+   * Load configurations from the database config file
+   * Values in the file are interpolated from environment variables, see
+   * config/databases.yaml.
+   * @throws DatabaseConfigError listing every problem in the file
+   */
+  static loadFromEnvironment(): void {
+    const manager = DatabaseManager.getInstance()
 
-    // For backward compatibility - register the MySQL database
-    if (process.env.MYSQL_DATABASE) {
-      manager.register({
-        name: 'mysql',
-        type: DatabaseType.MySQL,
-        host: process.env.MYSQL_HOST || 'localhost',
-        port: parseInt(process.env.MYSQL_PORT || '3306'),
-        database: process.env.MYSQL_DATABASE,
-        user: process.env.MYSQL_USER || '',
-        password: process.env.MYSQL_PASSWORD || '',
-        enabled: true,
-        poolConfig: {
-          min: 0,
-          max: 10
-        }
-      })
+    for (const config of loadDatabaseConfigs()) {
+      manager.register(config)
     }
   }
 }
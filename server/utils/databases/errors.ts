@@ -0,0 +1,174 @@
+/**
+ * Database error classification
+ * Driver errors are normalized into a small set of kinds so callers can react
+ * to what went wrong without knowing which driver raised it. Each kind is
+ * recognized from SQL Server error numbers, MySQL errno values,
+ * PostgreSQL SQLSTATE codes and SQLite error messages.
+ */
+
+import { isTimeoutError } from './stats'
+import type { DatabaseErrorKind } from './interfaces'
+
+// Socket and driver codes for connections that could not be made or were dropped
+// mssql: ESOCKET, ECONNCLOSED, ENOTOPEN, EINSTLOOKUP; mysql2: PROTOCOL_CONNECTION_LOST
+const CONNECTION_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN',
+  'ESOCKET', 'ECONNCLOSED', 'ENOTOPEN', 'EINSTLOOKUP', 'PROTOCOL_CONNECTION_LOST'
+])
+
+const MSSQL_NUMBERS: Record<number, DatabaseErrorKind> = {
+  // Login failed, account locked out, password expired
+  18456: 'auth', 18452: 'auth', 18486: 'auth', 18487: 'auth', 18488: 'auth',
+  // Permission denied on object, column, database or server
+  229: 'permission', 230: 'permission', 262: 'permission', 300: 'permission',
+  // Unique constraint, unique index, foreign key/check constraint, NULL into NOT NULL column
+  2627: 'constraint', 2601: 'constraint', 547: 'constraint', 515: 'constraint',
+  1205: 'deadlock',
+  // Incorrect syntax, unclosed quotation mark, parameter count mismatch
+  102: 'syntax', 105: 'syntax', 156: 'syntax', 170: 'syntax', 8144: 'syntax',
+  // Invalid object, column, stored procedure or database name
+  208: 'not-found-object', 207: 'not-found-object', 2812: 'not-found-object', 911: 'not-found-object',
+  // Lock request timeout
+  1222: 'timeout',
+  // Database unavailable during failover, Azure/AG transient errors, transport-level failures
+  4060: 'connection', 40197: 'connection', 40501: 'connection', 40613: 'connection',
+  49918: 'connection', 49919: 'connection', 49920: 'connection',
+  233: 'connection', 64: 'connection', 10053: 'connection', 10054: 'connection', 10060: 'connection'
+}
+
+const MYSQL_ERRNOS: Record<number, DatabaseErrorKind> = {
+  // Access denied, plugin auth failure, password expired
+  1045: 'auth', 1698: 'auth', 1862: 'auth', 1820: 'auth',
+  // Database, table, column, command or routine access denied
+  1044: 'permission', 1142: 'permission', 1143: 'permission', 1227: 'permission', 1370: 'permission',
+  // Duplicate key, foreign key, NULL into NOT NULL column, check constraint
+  1062: 'constraint', 1451: 'constraint', 1452: 'constraint', 1216: 'constraint', 1217: 'constraint',
+  1048: 'constraint', 1557: 'constraint', 1586: 'constraint', 3819: 'constraint',
+  1213: 'deadlock',
+  1064: 'syntax', 1149: 'syntax',
+  // Unknown table, column, database or routine
+  1146: 'not-found-object', 1054: 'not-found-object', 1049: 'not-found-object', 1305: 'not-found-object',
+  // Lock wait timeout, max_execution_time exceeded
+  1205: 'timeout', 3024: 'timeout',
+  // Too many connections, server shutting down, server gone away, lost connection
+  1040: 'connection', 1053: 'connection', 2002: 'connection', 2003: 'connection', 2006: 'connection', 2013: 'connection'
+}
+
+const PG_STATES: Record<string, DatabaseErrorKind> = {
+  '40P01': 'deadlock',
+  // Serialization failure: the transaction lost a conflict with a concurrent one
+  '40001': 'deadlock',
+  '42601': 'syntax',
+  '42501': 'permission',
+  // Undefined table, column, function, object; unknown database or schema
+  '42P01': 'not-found-object', '42703': 'not-found-object', '42883': 'not-found-object',
+  '42704': 'not-found-object', '3D000': 'not-found-object', '3F000': 'not-found-object',
+  // Statement timeout or cancel, lock_timeout
+  '57014': 'timeout', '55P03': 'timeout',
+  // Admin/crash shutdown, starting up, too many connections
+  '57P01': 'connection', '57P02': 'connection', '57P03': 'connection', '53300': 'connection'
+}
+
+// SQLSTATE classes: 08 connection exception, 23 integrity constraint violation,
+// 28 invalid authorization
+const PG_CLASSES: Record<string, DatabaseErrorKind> = {
+  '08': 'connection',
+  '23': 'constraint',
+  '28': 'auth'
+}
+
+// sql.js raises plain Errors carrying only SQLite's message
+const SQLITE_MESSAGES: Array<[RegExp, DatabaseErrorKind]> = [
+  [/constraint failed/i, 'constraint'],
+  [/syntax error|incomplete input|unrecognized token/i, 'syntax'],
+  [/^no such (table|column|function|savepoint)/i, 'not-found-object'],
+  [/database is locked/i, 'timeout']
+]
+
+/**
+ * Classifies an error raised by SQLite from its message
+ * Only used by the SQLite driver, since other errors could match by accident.
+ */
+export function classifySQLiteError(error: unknown): DatabaseErrorKind | undefined {
+  const message = error instanceof Error ? error.message : ''
+  return SQLITE_MESSAGES.find(([pattern]) => pattern.test(message))?.[1]
+}
+
+/**
+ * Walks an error and the driver errors it wraps
+ * DatabaseError keeps the driver error in originalError; mssql nests the
+ * tedious error the same way.
+ */
+export function* errorChain(error: unknown): Generator<any> {
+  let current: any = error
+  for (let depth = 0; current && depth < 5; depth++) {
+    yield current
+    current = current.originalError || current.cause
+  }
+}
+
+/**
+ * Classifies a single error without looking at what it wraps
+ */
+function classifyOne(err: any): DatabaseErrorKind | undefined {
+  if (typeof err !== 'object') {
+    return undefined
+  }
+
+  const code = typeof err.code === 'string' ? err.code : undefined
+
+  // A timeout while connecting means the database is unreachable: mssql reports
+  // a login timeout as a ConnectionError with ETIMEOUT, mysql2 and pg surface
+  // the socket's ETIMEDOUT. mssql reports a failed login as ELOGIN before the
+  // server's error number is attached.
+  if ((err.name === 'ConnectionError' && code === 'ETIMEOUT') || (code === 'ETIMEDOUT' && err.syscall === 'connect')) {
+    return 'connection'
+  }
+  if (code === 'ELOGIN' && typeof err.number !== 'number') {
+    return 'auth'
+  }
+
+  if (typeof err.number === 'number' && MSSQL_NUMBERS[err.number]) {
+    return MSSQL_NUMBERS[err.number]
+  }
+
+  // mysql2 server errors carry a sqlState; Node system errors also have a (negative) errno
+  if (typeof err.errno === 'number' && err.sqlState !== undefined && MYSQL_ERRNOS[err.errno]) {
+    return MYSQL_ERRNOS[err.errno]
+  }
+
+  if (code && /^[0-9A-Z]{5}$/.test(code) && typeof err.severity === 'string') {
+    return PG_STATES[code] || PG_CLASSES[code.slice(0, 2)]
+  }
+
+  if (code && CONNECTION_CODES.has(code)) {
+    return 'connection'
+  }
+
+  if (isTimeoutError(err)) {
+    return 'timeout'
+  }
+
+  // Stopped by the caller's AbortSignal (see cancellation.ts)
+  if (err.name === 'AbortError') {
+    return 'cancelled'
+  }
+
+  return undefined
+}
+
+/**
+ * Works out the kind of a database failure from the driver error
+ * The outermost recognizable error wins, so a kind set explicitly on a
+ * DatabaseError is kept.
+ */
+export function classifyDatabaseError(error: unknown): DatabaseErrorKind {
+  for (const err of errorChain(error)) {
+    const kind = err.kind && err.kind !== 'unknown' ? err.kind as DatabaseErrorKind : classifyOne(err)
+    if (kind) {
+      return kind
+    }
+  }
+
+  return 'unknown'
+}
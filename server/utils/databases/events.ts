@@ -0,0 +1,141 @@
+/**
+ * Database event bus
+ * The connection classes emit connect, disconnect, error and query events
+ * here, for every database. Subscribers (the slow-query log, query metrics)
+ * are registered once at startup by the database plugin.
+ */
+
+import consola from 'consola'
+import type { DatabaseEvents, DatabaseEvent, QueryEvent, QueryOptions, QueryResult } from './interfaces'
+
+type EventName = keyof DatabaseEvents
+
+/**
+ * Typed publish/subscribe for database events
+ * Listeners run synchronously, so they should be cheap; one that throws is
+ * logged and never fails the query that emitted the event.
+ */
+export class DatabaseEventBus {
+  private listeners = new Map<EventName, Set<(payload: any) => void>>()
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribes the listener
+   */
+  on<E extends EventName>(event: E, listener: DatabaseEvents[E]): () => void {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+    listeners.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  off<E extends EventName>(event: E, listener: DatabaseEvents[E]): void {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  emit<E extends EventName>(event: E, payload: Parameters<DatabaseEvents[E]>[0]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload)
+      } catch (error) {
+        consola.warn(`[${payload.database}] Database '${event}' listener failed:`, error)
+      }
+    }
+  }
+}
+
+// The bus every connection emits on
+export const databaseEvents = new DatabaseEventBus()
+
+/**
+ * A query in progress, as started by trackQuery
+ * Only the first end or fail emits; later calls are ignored.
+ */
+export interface TrackedQuery {
+  // The query succeeded; returns the result unchanged
+  end<R extends QueryResult | number>(result: R): R
+  fail(error: unknown): void
+}
+
+/**
+ * Starts timing a query for the `query` and `error` events
+ * @param source The connection running the query
+ * @param params The caller's parameters; only their names are kept
+ */
+export function trackQuery(
+  source: { name: string, type: DatabaseEvent['type'] },
+  kind: QueryEvent['kind'],
+  sql: string,
+  params: unknown,
+  options: QueryOptions | undefined
+): TrackedQuery {
+  const startedAt = Date.now()
+  let finished = false
+
+  const emit = (rowCount: number, error?: Error) => {
+    if (finished) {
+      return
+    }
+    finished = true
+
+    const event: QueryEvent = {
+      database: source.name,
+      type: source.type,
+      kind,
+      sql,
+      paramNames: parameterNames(params),
+      rowCount,
+      durationMs: Date.now() - startedAt,
+      route: options?.route,
+      error
+    }
+
+    databaseEvents.emit('query', event)
+    if (error) {
+      databaseEvents.emit('error', { database: source.name, type: source.type, error, sql })
+    }
+  }
+
+  return {
+    end: (result) => {
+      emit(typeof result === 'number' ? result : result.rowCount)
+      return result
+    },
+    fail: error => emit(0, error as Error)
+  }
+}
+
+/**
+ * Yields a stream's rows, ending the tracked query when the stream finishes,
+ * fails or is stopped early by the consumer
+ */
+export async function* trackStream<T>(query: TrackedQuery, rows: AsyncGenerator<T>): AsyncGenerator<T> {
+  let count = 0
+  try {
+    for await (const row of rows) {
+      count++
+      yield row
+    }
+  } catch (error) {
+    query.fail(error)
+    throw error
+  } finally {
+    query.end(count)
+  }
+}
+
+/**
+ * Names of a query's parameters
+ */
+function parameterNames(params: unknown): string[] {
+  if (Array.isArray(params)) {
+    return params.map((_, index) => `?${index + 1}`)
+  }
+  if (params && typeof params === 'object') {
+    return Object.keys(params)
+  }
+  return []
+}
@@ -4,20 +4,21 @@
 
 export { DatabaseManager, db } from './databaseManager'
 export * from './interfaces'
+export { classifyDatabaseError } from './errors'
+export { QueryTimeoutError, QueryAbortedError } from './cancellation'
+export { isTypedParameter, type TypedParameter } from './parameters'
+export { selectFrom, quoteIdentifier, keysetCursor, parseKeysetCursor, SelectQuery, QueryBuilderError, type Condition, type CompiledQuery } from './queryBuilder'
+export { loadDatabaseConfigs, getDatabaseConfigPath, DatabaseConfigError } from './config'
+export { ReplicatedConnection, type ReplicaHealth } from './replicas'
+export { invalidateQueryCache, clearQueryCache, getQueryCacheStats, setQueryCacheBackend, getQueryCacheBackend, MemoryQueryCache, type QueryCacheBackend, type QueryCacheStats } from './cache'
+export { loadMigrations, getMigrationStatus, migrateUp, migrateDown, getSchemaVersions, getMigrationDatabases, getMigrationsDir, MigrationError, type Migration, type AppliedMigration, type MigrationStatus } from './migrations'
+export { databaseEvents, DatabaseEventBus } from './events'
+export { subscribeSlowQueryLog, getSlowQueryThresholdMs, normalizeSql, type SlowQueryEntry } from './slowQueryLog'
+export { subscribeQueryMetrics, getQueryMetrics, resetQueryMetrics, createDurationHistogram, observeDuration, QUERY_DURATION_BUCKETS_MS, type DatabaseQueryMetrics, type DurationHistogram } from './metrics'
+export { isTransientError, isIdempotentRead, CircuitOpenError, type CircuitBreakerStatus, type CircuitState } from './resilience'
 
 // Export connection classes for advanced usage
 export { MSSQLConnection } from './connections/mssql'
 export { MySQLConnection } from './connections/mysql'
 export { PostgreSQLConnection } from './connections/postgres'
-
-// Initialize database configurations from environment on import
-import { DatabaseManager } from './databaseManager'
-import consola from 'consola'
-
-const manager = DatabaseManager.getInstance()
-DatabaseManager.loadFromEnvironment()
-
-const databases = manager.getRegisteredDatabases()
-if (databases.length > 0) {
-  consola.success(`Database manager: registered ${databases.length} database(s): ${databases.join(', ')}`)
-}
\ No newline at end of file
+export { SQLiteConnection } from './connections/sqlite'
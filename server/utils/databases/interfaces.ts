@@ -4,7 +4,8 @@
 
 import { IResult } from 'mssql'
 import { FieldPacket } from 'mysql2/promise'
-import { PoolClient, QueryResult } from 'pg'
+import type { QueryResult as PgQueryResult } from 'pg'
+import { classifyDatabaseError } from './errors'
 
 /**
  * Database types supported by the system
@@ -12,7 +13,8 @@ import { PoolClient, QueryResult } from 'pg'
 export enum DatabaseType {
   MSSQL = 'mssql',
   MySQL = 'mysql',
-  PostgreSQL = 'postgresql'
+  PostgreSQL = 'postgresql',
+  SQLite = 'sqlite'
 }
 
 /**
@@ -23,6 +25,27 @@ export interface DatabaseConfig {
   type: DatabaseType
   enabled?: boolean
   poolConfig?: PoolConfig
+  retry?: RetryConfig
+  circuitBreaker?: CircuitBreakerConfig
+  queryTimeoutMs?: number  // Cancel queries running longer than this (0 disables)
+  replicas?: ReplicaConfig[]
+  replicaRoutes?: string[]  // Request paths whose reads go to a replica, e.g. '/api/logger/**'
+}
+
+/**
+ * A read replica of a database
+ * Settings left out are taken from the primary's configuration.
+ */
+export interface ReplicaConfig {
+  name?: string           // Defaults to '<database>-replica<N>'
+  enabled?: boolean
+  server?: string         // SQL Server
+  host?: string           // MySQL and PostgreSQL
+  port?: number
+  user?: string
+  password?: string
+  poolConfig?: PoolConfig
+  maxLagSeconds?: number  // SQL Server Availability Groups: skip the replica while its redo lag is higher
 }
 
 /**
@@ -36,6 +59,23 @@ export interface PoolConfig {
   acquireTimeoutMillis?: number
 }
 
+/**
+ * Retry policy for idempotent reads that hit a transient error
+ */
+export interface RetryConfig {
+  attempts?: number     // Total attempts including the first (1 disables retries)
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+/**
+ * Circuit breaker thresholds
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number  // Consecutive transient failures before opening
+  resetTimeoutMs?: number    // How long to fail fast before probing
+}
+
 /**
  * MSSQL specific configuration
  */
@@ -85,10 +125,40 @@ export interface PostgreSQLConfig extends DatabaseConfig {
   query_timeout?: number
 }
 
+/**
+ * SQLite specific configuration
+ * The database is held in memory and rebuilt from the seed files each time
+ * it connects, for local development and CI.
+ */
+export interface SQLiteConfig extends DatabaseConfig {
+  type: DatabaseType.SQLite
+  seed?: string[]  // SQL files run in order on connect, e.g. DDL then fixtures
+}
+
 /**
  * Union type for all database configurations
  */
-export type AnyDatabaseConfig = MSSQLConfig | MySQLConfig | PostgreSQLConfig
+export type AnyDatabaseConfig = MSSQLConfig | MySQLConfig | PostgreSQLConfig | SQLiteConfig
+
+/**
+ * Per-call query options
+ */
+export interface QueryOptions {
+  timeoutMs?: number    // Overrides the database's queryTimeoutMs (0 disables)
+  signal?: AbortSignal  // Cancels the query on the server when aborted
+  readOnly?: boolean    // true sends the read to a replica, false keeps it on the primary
+  route?: string        // Request path, matched against the database's replicaRoutes
+  cache?: QueryCacheOptions  // Serve the query from the query cache
+}
+
+/**
+ * Caching for one query call site
+ * Tags can be derived from the result, e.g. one tag per client row returned.
+ */
+export interface QueryCacheOptions {
+  ttlMs: number
+  tags?: string[] | ((result: QueryResult) => string[])
+}
 
 /**
  * Generic query result that works across all databases
@@ -99,11 +169,39 @@ export interface QueryResult<T = any> {
   fields?: any[]
 }
 
+/**
+ * Transaction isolation levels
+ * 'snapshot' is SQL Server only.
+ */
+export type IsolationLevel = 'read uncommitted' | 'read committed' | 'repeatable read' | 'serializable' | 'snapshot'
+
+/**
+ * Options for beginning a transaction
+ */
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel  // Defaults to the database's own default
+}
+
 /**
  * Transaction interface
+ * Statements run one at a time on a single connection; await each before
+ * starting the next.
  */
 export interface Transaction {
-  query<T = any>(sql: string, params?: any): Promise<QueryResult<T>>
+  query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>>
+
+  /**
+   * Execute a stored procedure (or PostgreSQL function) inside the transaction
+   */
+  execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>>
+
+  /**
+   * Run `fn` inside a savepoint
+   * If `fn` throws, only its work is rolled back and the error is rethrown;
+   * the transaction stays open. Savepoints can be nested.
+   */
+  savepoint<R>(fn: (tx: Transaction) => Promise<R>): Promise<R>
+
   commit(): Promise<void>
   rollback(): Promise<void>
 }
@@ -135,17 +233,24 @@ export interface IDatabase {
   /**
    * Execute a query with optional parameters
    */
-  query<T = any>(sql: string, params?: any): Promise<QueryResult<T>>
+  query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>>
+
+  /**
+   * Stream the rows of a query without loading the whole result set
+   * Rows are read as the consumer asks for them; breaking out of the loop
+   * stops the query and releases the connection.
+   */
+  stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncIterable<T>
 
   /**
    * Execute a stored procedure (where supported)
    */
-  execute?<T = any>(procedure: string, params?: any): Promise<QueryResult<T>>
+  execute?<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>>
 
   /**
    * Begin a transaction
    */
-  beginTransaction?(): Promise<Transaction>
+  beginTransaction?(options?: TransactionOptions): Promise<Transaction>
 
   /**
    * Test the connection
@@ -162,21 +267,68 @@ export interface IDatabase {
  * Connection statistics
  */
 export interface ConnectionStats {
-  active: number
-  idle: number
-  total: number
-  waiting?: number
+  active: number    // Connections checked out by a query or transaction
+  idle: number      // Open connections waiting in the pool
+  total: number     // Open connections (active + idle)
+  waiting?: number  // Callers queued for a connection
+  max?: number      // Pool size limit
   errors?: number
+  counters?: QueryCounters
+  replicas?: Record<string, ConnectionStats>
+}
+
+/**
+ * Cumulative query counters for a connection
+ */
+export interface QueryCounters {
+  queries: number
+  errors: number
+  timeouts: number
+  acquires: number          // Connections handed out by the pool
+  acquireWaitMs: number     // Total time spent waiting for a connection
+  avgAcquireWaitMs: number
+  maxAcquireWaitMs: number
 }
 
 /**
  * Database connection event types
+ * Every driver emits these on the shared event bus (see events.ts).
  */
 export interface DatabaseEvents {
-  connect: () => void
-  disconnect: () => void
-  error: (error: Error) => void
-  query: (sql: string, duration: number) => void
+  connect: (event: DatabaseEvent) => void
+  disconnect: (event: DatabaseEvent) => void
+  error: (event: DatabaseErrorEvent) => void
+  query: (event: QueryEvent) => void
+}
+
+/**
+ * The database an event came from
+ */
+export interface DatabaseEvent {
+  database: string
+  type: DatabaseType
+}
+
+/**
+ * A failed connect or query
+ */
+export interface DatabaseErrorEvent extends DatabaseEvent {
+  error: Error
+  sql?: string             // Set when a query failed
+}
+
+/**
+ * A finished query, stream or stored procedure call
+ * Parameter values are never part of the event, only their names.
+ */
+export interface QueryEvent extends DatabaseEvent {
+  kind: 'query' | 'stream' | 'execute'
+  sql: string              // The statement, or the procedure name for execute
+  paramNames: string[]     // Named parameters, or ?1, ?2, ... for positional ones
+  rowCount: number         // Rows returned (or streamed), else rows affected
+  durationMs: number       // For streams, until the last row was read
+  route?: string           // Request path the query ran for
+  error?: Error            // Set when the query failed
 }
 
 /**
@@ -208,26 +360,59 @@ export class ResultAdapter {
   /**
    * Convert PostgreSQL result to common format
    */
-  static fromPostgreSQL<T>(result: QueryResult<T>): QueryResult<T> {
+  static fromPostgreSQL<T>(result: PgQueryResult<any>): QueryResult<T> {
     return {
       rows: result.rows || [],
       rowCount: result.rowCount || 0,
       fields: result.fields
     }
   }
+
+  /**
+   * Convert SQLite rows to common format
+   * Statements without result columns report the rows they changed.
+   */
+  static fromSQLite<T>(rows: T[], columns: string[], rowsModified: number): QueryResult<T> {
+    return {
+      rows,
+      rowCount: columns.length > 0 ? rows.length : rowsModified,
+      fields: columns.map(name => ({ name }))
+    }
+  }
 }
 
+/**
+ * Normalized cause of a database failure, independent of the driver
+ * 'unknown' covers anything not recognized from the driver's error code.
+ */
+export type DatabaseErrorKind =
+  | 'timeout'
+  | 'connection'
+  | 'auth'
+  | 'constraint'
+  | 'deadlock'
+  | 'syntax'
+  | 'permission'
+  | 'not-found-object'
+  | 'cancelled'
+  | 'unknown'
+
 /**
  * Database error with additional context
+ * The kind is worked out from the original driver error unless given.
  */
 export class DatabaseError extends Error {
+  public readonly kind: DatabaseErrorKind
+
   constructor(
     message: string,
     public readonly database: string,
     public readonly type: DatabaseType,
-    public readonly originalError?: Error
+    public readonly originalError?: Error,
+    kind?: DatabaseErrorKind
   ) {
     super(message)
     this.name = 'DatabaseError'
+    this.kind = kind || classifyDatabaseError(originalError)
   }
 }
\ No newline at end of file
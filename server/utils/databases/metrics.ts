@@ -0,0 +1,143 @@
+/**
+ * Query metrics
+ * Per-database counters built from the database events: queries, errors,
+ * slow queries, rows and a histogram of query durations, plus connection
+ * events. Counters are cumulative for the lifetime of the process.
+ */
+
+import { databaseEvents } from './events'
+import { getSlowQueryThresholdMs } from './slowQueryLog'
+import type { QueryEvent } from './interfaces'
+
+// Upper bounds of the duration histogram buckets, in milliseconds
+export const QUERY_DURATION_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+/**
+ * A histogram of durations
+ */
+export interface DurationHistogram {
+  count: number
+  sumMs: number
+  buckets: number[]         // Observations at or under each QUERY_DURATION_BUCKETS_MS bound (cumulative)
+}
+
+/**
+ * Metrics for one database
+ */
+export interface DatabaseQueryMetrics {
+  queries: number
+  errors: number            // Failed queries
+  slowQueries: number       // Queries over DB_SLOW_QUERY_MS
+  rows: number              // Rows returned or affected
+  durations: Record<'success' | 'error', DurationHistogram>
+  byKind: Record<QueryEvent['kind'], number>
+  connects: number
+  disconnects: number
+  connectionErrors: number  // Failed connects and pool errors
+}
+
+const metrics: Map<string, DatabaseQueryMetrics> = new Map()
+
+/**
+ * Create an empty duration histogram
+ */
+export function createDurationHistogram(): DurationHistogram {
+  return { count: 0, sumMs: 0, buckets: QUERY_DURATION_BUCKETS_MS.map(() => 0) }
+}
+
+/**
+ * Add a duration to a histogram
+ */
+export function observeDuration(histogram: DurationHistogram, durationMs: number): void {
+  histogram.count++
+  histogram.sumMs += durationMs
+  QUERY_DURATION_BUCKETS_MS.forEach((bound, index) => {
+    if (durationMs <= bound) {
+      histogram.buckets[index]++
+    }
+  })
+}
+
+function metricsFor(database: string): DatabaseQueryMetrics {
+  let entry = metrics.get(database)
+  if (!entry) {
+    entry = {
+      queries: 0,
+      errors: 0,
+      slowQueries: 0,
+      rows: 0,
+      durations: { success: createDurationHistogram(), error: createDurationHistogram() },
+      byKind: { query: 0, stream: 0, execute: 0 },
+      connects: 0,
+      disconnects: 0,
+      connectionErrors: 0
+    }
+    metrics.set(database, entry)
+  }
+  return entry
+}
+
+/**
+ * Add a finished query to its database's metrics
+ */
+export function recordQueryMetrics(event: QueryEvent): void {
+  const entry = metricsFor(event.database)
+  const slowQueryMs = getSlowQueryThresholdMs()
+
+  entry.queries++
+  entry.byKind[event.kind]++
+  entry.rows += event.rowCount
+  if (event.error) {
+    entry.errors++
+  }
+  if (slowQueryMs && event.durationMs >= slowQueryMs) {
+    entry.slowQueries++
+  }
+
+  observeDuration(entry.durations[event.error ? 'error' : 'success'], event.durationMs)
+}
+
+/**
+ * Start collecting metrics from every database
+ * @returns Stops collecting
+ */
+export function subscribeQueryMetrics(): () => void {
+  const unsubscribe = [
+    databaseEvents.on('query', recordQueryMetrics),
+    databaseEvents.on('connect', ({ database }) => {
+      metricsFor(database).connects++
+    }),
+    databaseEvents.on('disconnect', ({ database }) => {
+      metricsFor(database).disconnects++
+    }),
+    // Query failures also arrive here with their SQL; they are counted from the query event
+    databaseEvents.on('error', ({ database, sql }) => {
+      if (sql === undefined) {
+        metricsFor(database).connectionErrors++
+      }
+    })
+  ]
+
+  return () => unsubscribe.forEach(stop => stop())
+}
+
+/**
+ * Get a copy of every database's metrics
+ */
+export function getQueryMetrics(): Record<string, DatabaseQueryMetrics> {
+  return Object.fromEntries(Array.from(metrics.entries()).map(([name, entry]) => [name, {
+    ...entry,
+    durations: {
+      success: { ...entry.durations.success, buckets: [...entry.durations.success.buckets] },
+      error: { ...entry.durations.error, buckets: [...entry.durations.error.buckets] }
+    },
+    byKind: { ...entry.byKind }
+  }]))
+}
+
+/**
+ * Drop every counter
+ */
+export function resetQueryMetrics(): void {
+  metrics.clear()
+}
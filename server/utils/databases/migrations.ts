@@ -0,0 +1,524 @@
+/**
+ * Schema migrations
+ * Databases the API owns (audit log, API key store, ...) are changed through
+ * numbered SQL files in `<MIGRATIONS_DIR>/<database>/` (default sql/migrations):
+ *
+ *   0001_create_api_audit_log.up.sql
+ *   0001_create_api_audit_log.down.sql   (optional)
+ *
+ * Applied migrations are recorded with a checksum in the database's
+ * `schema_migrations` table. A migration that was edited after it was applied
+ * is reported, and blocks further migrations until it is restored.
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import consola from 'consola'
+import { db } from './databaseManager'
+import { DatabaseType, DatabaseError, type Transaction } from './interfaces'
+import { invalidateQueryCache } from './cache'
+
+const DEFAULT_MIGRATIONS_DIR = 'sql/migrations'
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/
+
+// The schema version in /api/version is cached for this long
+const VERSION_CACHE_TTL_MS = 60 * 1000
+
+// How long to wait for another process's migrations (MIGRATION_LOCK_TIMEOUT_MS)
+const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000
+
+/**
+ * A migration file pair
+ */
+export interface Migration {
+  version: string
+  name: string
+  checksum: string  // sha256 of the up script
+  up: string
+  down: string | null
+}
+
+/**
+ * A row of schema_migrations
+ */
+export interface AppliedMigration {
+  version: string
+  name: string
+  checksum: string
+  appliedAt: string
+  durationMs: number
+}
+
+/**
+ * Migration state of a database
+ */
+export interface MigrationStatus {
+  database: string
+  version: string | null  // Latest applied migration
+  applied: AppliedMigration[]
+  pending: string[]       // Versions with a file but not applied
+  changed: string[]       // Applied versions whose file no longer matches its checksum
+  missing: string[]       // Applied versions with no file
+}
+
+/**
+ * Raised when migrations cannot be loaded or run
+ */
+export class MigrationError extends Error {
+  constructor(message: string, public readonly database: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+/**
+ * Get the directory holding every database's migrations
+ */
+export function getMigrationsDir(): string {
+  return process.env.MIGRATIONS_DIR || DEFAULT_MIGRATIONS_DIR
+}
+
+/**
+ * Registered databases that have a migrations directory
+ */
+export function getMigrationDatabases(): string[] {
+  return db.getRegisteredDatabases().filter(name => existsSync(join(getMigrationsDir(), name)))
+}
+
+/**
+ * Read a database's migration files, in version order
+ * @throws MigrationError for duplicate versions or a down script without an up script
+ */
+export function loadMigrations(database: string): Migration[] {
+  const dir = join(getMigrationsDir(), database)
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  const migrations = new Map<number, Migration>()
+  const downs = new Map<number, string>()
+
+  for (const file of readdirSync(dir).sort()) {
+    const match = file.match(MIGRATION_FILE)
+    if (!match) {
+      continue
+    }
+
+    const [, version, name, direction] = match
+    const number = Number(version)
+    const sql = readFileSync(join(dir, file), 'utf-8').replace(/\r\n/g, '\n')
+
+    if (direction === 'down') {
+      downs.set(number, sql)
+      continue
+    }
+
+    const existing = migrations.get(number)
+    if (existing) {
+      throw new MigrationError(`Duplicate migration version ${version} (${existing.name}, ${name})`, database)
+    }
+    migrations.set(number, { version, name, checksum: checksum(sql), up: sql, down: null })
+  }
+
+  for (const [number, sql] of downs) {
+    const migration = migrations.get(number)
+    if (!migration) {
+      throw new MigrationError(`Down migration ${number} has no up migration`, database)
+    }
+    migration.down = sql
+  }
+
+  return Array.from(migrations.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, migration]) => migration)
+}
+
+/**
+ * Compare the migration files with what the database has applied
+ */
+export async function getMigrationStatus(database: string): Promise<MigrationStatus> {
+  const migrations = loadMigrations(database)
+  const applied = await getAppliedMigrations(database)
+
+  const files = new Map(migrations.map(migration => [Number(migration.version), migration]))
+  const appliedVersions = new Set(applied.map(migration => Number(migration.version)))
+
+  return {
+    database,
+    version: applied.at(-1)?.version ?? null,
+    applied,
+    pending: migrations.filter(migration => !appliedVersions.has(Number(migration.version))).map(migration => migration.version),
+    changed: applied.filter(migration => {
+      const file = files.get(Number(migration.version))
+      return file && file.checksum !== migration.checksum
+    }).map(migration => migration.version),
+    missing: applied.filter(migration => !files.has(Number(migration.version))).map(migration => migration.version)
+  }
+}
+
+/**
+ * Apply every pending migration, each in its own transaction
+ * @returns The versions applied
+ * @throws MigrationError if an applied migration was changed; nothing is applied
+ * @throws MigrationError if another process keeps the migration lock
+ */
+export async function migrateUp(database: string): Promise<string[]> {
+  return withMigrationLock(database, async () => {
+    const status = await getMigrationStatus(database)
+    if (status.changed.length > 0) {
+      throw new MigrationError(`Applied migrations were changed: ${status.changed.join(', ')}`, database)
+    }
+
+    const pending = new Set(status.pending)
+    const applied: string[] = []
+
+    try {
+      for (const migration of loadMigrations(database).filter(migration => pending.has(migration.version))) {
+        const startedAt = Date.now()
+        const type = db.getType(database)
+
+        await db.withTransaction(database, async (tx) => {
+          await runScript(tx, database, type, migration, migration.up)
+          await tx.query(
+            `INSERT INTO ${migrationsTable(type)} (version, name, checksum, applied_at, duration_ms) VALUES (${placeholders(type, ['version', 'name', 'checksum', 'appliedAt', 'durationMs'])})`,
+            { version: migration.version, name: migration.name, checksum: migration.checksum, appliedAt: new Date(), durationMs: Date.now() - startedAt }
+          )
+        })
+
+        applied.push(migration.version)
+        consola.success(`[${database}] Applied migration ${migration.version}_${migration.name}`)
+      }
+    } finally {
+      if (applied.length > 0) {
+        await invalidateQueryCache(versionCacheTag(database))
+      }
+    }
+
+    return applied
+  })
+}
+
+/**
+ * Roll back the latest applied migrations, newest first
+ * @param steps How many migrations to roll back
+ * @returns The versions rolled back
+ * @throws MigrationError if a migration has no down script or its file is missing
+ * @throws MigrationError if another process keeps the migration lock
+ */
+export async function migrateDown(database: string, steps = 1): Promise<string[]> {
+  return withMigrationLock(database, async () => {
+    const files = new Map(loadMigrations(database).map(migration => [Number(migration.version), migration]))
+    const targets = (await getAppliedMigrations(database)).slice(-steps).reverse()
+    const rolledBack: string[] = []
+
+    try {
+      for (const target of targets) {
+        const migration = files.get(Number(target.version))
+        if (!migration?.down) {
+          throw new MigrationError(`Migration ${target.version}_${target.name} has no down migration`, database)
+        }
+
+        const type = db.getType(database)
+        await db.withTransaction(database, async (tx) => {
+          await runScript(tx, database, type, migration, migration.down!)
+          await tx.query(`DELETE FROM ${migrationsTable(type)} WHERE version = ${placeholders(type, ['version'])}`, { version: target.version })
+        })
+
+        rolledBack.push(target.version)
+        consola.success(`[${database}] Rolled back migration ${target.version}_${target.name}`)
+      }
+    } finally {
+      if (rolledBack.length > 0) {
+        await invalidateQueryCache(versionCacheTag(database))
+      }
+    }
+
+    return rolledBack
+  })
+}
+
+/**
+ * Get the latest applied migration version of every database with migrations
+ * Cached briefly; a database that cannot be reached reports null.
+ */
+export async function getSchemaVersions(): Promise<Record<string, string | null>> {
+  const versions: Record<string, string | null> = {}
+
+  for (const database of getMigrationDatabases().filter(name => db.isEnabled(name))) {
+    try {
+      const applied = await getAppliedMigrations(database, VERSION_CACHE_TTL_MS)
+      versions[database] = applied.at(-1)?.version ?? null
+    } catch (error) {
+      consola.warn(`[${database}] Could not read the schema version:`, error)
+      versions[database] = null
+    }
+  }
+
+  return versions
+}
+
+// Databases whose schema_migrations table is known to exist
+const ensuredTables = new Set<string>()
+
+/**
+ * Read schema_migrations in version order, creating the table if needed
+ * @param cacheTtlMs Serve the rows from the query cache for this long
+ */
+async function getAppliedMigrations(database: string, cacheTtlMs?: number): Promise<AppliedMigration[]> {
+  const connection = await db.get(database)
+
+  if (!ensuredTables.has(database)) {
+    await connection.query(createTableSql(connection.type))
+    ensuredTables.add(database)
+  }
+
+  const result = await connection.query(
+    `SELECT version, name, checksum, applied_at, duration_ms FROM ${migrationsTable(connection.type)}`,
+    undefined,
+    cacheTtlMs ? { cache: { ttlMs: cacheTtlMs, tags: [versionCacheTag(database)] } } : undefined
+  )
+
+  return result.rows
+    .map((row: any): AppliedMigration => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: new Date(row.applied_at).toISOString(),
+      durationMs: row.duration_ms
+    }))
+    .sort((a, b) => Number(a.version) - Number(b.version))
+}
+
+// Migrations queued in this process, per database
+const migrationQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * Runs `fn` holding the database's migration lock, so two processes (e.g.
+ * two instances started by one deploy) never migrate a database at once
+ * Calls in this process queue behind each other. Across processes the lock
+ * is held by a transaction of its own until `fn` finishes, which keeps one
+ * pooled connection busy: sp_getapplock on SQL Server, an advisory lock on
+ * PostgreSQL and GET_LOCK on MySQL. SQLite databases live in memory, so the
+ * queue is enough.
+ */
+async function withMigrationLock<T>(database: string, fn: () => Promise<T>): Promise<T> {
+  const previous = migrationQueues.get(database) ?? Promise.resolve()
+  const run = previous.then(() => db.getType(database) === DatabaseType.SQLite ? fn() : withDatabaseLock(database, fn))
+  const done = run.catch(() => undefined)
+  migrationQueues.set(database, done)
+
+  try {
+    return await run
+  } finally {
+    if (migrationQueues.get(database) === done) {
+      migrationQueues.delete(database)
+    }
+  }
+}
+
+/**
+ * Runs `fn` while a transaction holds the database's lock
+ * @throws MigrationError if the lock is not granted within MIGRATION_LOCK_TIMEOUT_MS
+ */
+async function withDatabaseLock<T>(database: string, fn: () => Promise<T>): Promise<T> {
+  const type = db.getType(database)
+  const resource = `schema_migrations:${database}`
+  const timeoutMs = getLockTimeoutMs()
+
+  return db.withTransaction(database, async (tx) => {
+    if (!await acquireLock(tx, type, resource, timeoutMs)) {
+      throw new MigrationError(`Another process is running migrations; gave up waiting after ${timeoutMs}ms`, database)
+    }
+
+    try {
+      return await fn()
+    } finally {
+      // GET_LOCK belongs to the connection, so it outlives the transaction
+      if (type === DatabaseType.MySQL) {
+        await tx.query('SELECT RELEASE_LOCK(:resource)', { resource })
+      }
+    }
+  })
+}
+
+/**
+ * Take the migration lock in a transaction
+ * Waits are bounded by the lock's own timeout rather than the query timeout.
+ * @returns false if the lock was not granted in time
+ */
+async function acquireLock(tx: Transaction, type: DatabaseType, resource: string, timeoutMs: number): Promise<boolean> {
+  if (type === DatabaseType.MSSQL) {
+    const result = await tx.query(`
+      DECLARE @result int
+      EXEC @result = sp_getapplock @Resource = @resource, @LockMode = 'Exclusive', @LockOwner = 'Transaction', @LockTimeout = @timeoutMs
+      SELECT @result AS result
+    `, { resource, timeoutMs }, { timeoutMs: 0 })
+    return result.rows[0]?.result >= 0
+  }
+
+  if (type === DatabaseType.MySQL) {
+    const result = await tx.query(
+      'SELECT GET_LOCK(:resource, :timeoutSeconds) AS acquired',
+      { resource, timeoutSeconds: Math.ceil(timeoutMs / 1000) },
+      { timeoutMs: 0 }
+    )
+    return Number(result.rows[0]?.acquired) === 1
+  }
+
+  // PostgreSQL: released on commit or rollback; a lock_timeout ends the wait
+  await tx.query(`SET LOCAL lock_timeout = ${timeoutMs}`)
+  try {
+    await tx.query('SELECT pg_advisory_xact_lock(hashtext(:resource))', { resource }, { timeoutMs: 0 })
+    return true
+  } catch (error) {
+    if (error instanceof DatabaseError && error.kind === 'timeout') {
+      return false
+    }
+    throw error
+  }
+}
+
+function getLockTimeoutMs(): number {
+  const timeout = Math.floor(Number(process.env.MIGRATION_LOCK_TIMEOUT_MS ?? DEFAULT_LOCK_TIMEOUT_MS))
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_LOCK_TIMEOUT_MS
+}
+
+/**
+ * Runs a migration script one statement at a time
+ * SQL Server scripts are split into batches on `GO` lines; other databases
+ * are split with splitStatements.
+ */
+async function runScript(tx: Transaction, database: string, type: DatabaseType, migration: Migration, script: string): Promise<void> {
+  const statements = type === DatabaseType.MSSQL
+    ? script.split(/^\s*go\s*$/im).filter(sql => sql.trim())
+    : splitStatements(database, type, migration, script)
+
+  for (const statement of statements) {
+    await tx.query(statement.trim())
+  }
+}
+
+/**
+ * Split a MySQL, PostgreSQL or SQLite script on each `;` outside string
+ * literals, quoted identifiers and comments
+ * Statements holding only comments are dropped.
+ * @throws MigrationError for dollar-quoted bodies and BEGIN ... END blocks
+ *   (functions, triggers, procedures), whose own `;` cannot be told apart
+ */
+function splitStatements(database: string, type: DatabaseType, migration: Migration, script: string): string[] {
+  const statements: string[] = []
+  let start = 0
+  let code = ''  // The current statement without its literals and comments
+  let index = 0
+
+  const endStatement = (end: number) => {
+    if (/\bBEGIN\b/i.test(code)) {
+      throw unsplittableScript(database, migration, 'BEGIN ... END blocks')
+    }
+    if (code.trim()) {
+      statements.push(script.slice(start, end))
+    }
+    start = end + 1
+    code = ''
+  }
+
+  while (index < script.length) {
+    const char = script[index]
+    const rest = script.slice(index, index + 2)
+
+    if (rest === '--') {
+      const end = script.indexOf('\n', index)
+      index = end === -1 ? script.length : end
+    } else if (rest === '/*') {
+      const end = script.indexOf('*/', index + 2)
+      index = end === -1 ? script.length : end + 2
+      code += ' '
+    } else if (char === "'" || char === '"' || char === '`') {
+      index = skipQuoted(script, index, type === DatabaseType.MySQL)
+      code += ' '
+    } else if (char === '$' && /^\$(?:[A-Za-z_]\w*)?\$/.test(script.slice(index, index + 65))) {
+      throw unsplittableScript(database, migration, 'dollar-quoted bodies')
+    } else if (char === ';') {
+      endStatement(index)
+      index++
+    } else {
+      code += char
+      index++
+    }
+  }
+  endStatement(script.length)
+
+  return statements
+}
+
+/**
+ * Find the end of the quoted string or identifier starting at `start`
+ * A doubled quote is part of the text, as is a backslash-escaped one on MySQL.
+ */
+function skipQuoted(script: string, start: number, backslashEscapes: boolean): number {
+  const quote = script[start]
+  let index = start + 1
+
+  while (index < script.length) {
+    if (backslashEscapes && script[index] === '\\') {
+      index += 2
+    } else if (script[index] !== quote) {
+      index++
+    } else if (script[index + 1] === quote) {
+      index += 2
+    } else {
+      return index + 1
+    }
+  }
+  return index
+}
+
+function unsplittableScript(database: string, migration: Migration, construct: string): MigrationError {
+  return new MigrationError(
+    `Migration ${migration.version}_${migration.name} cannot be split into statements: ${construct} are not supported outside SQL Server`,
+    database
+  )
+}
+
+function checksum(sql: string): string {
+  return createHash('sha256').update(sql).digest('hex')
+}
+
+function versionCacheTag(database: string): string {
+  return `schema_migrations:${database}`
+}
+
+function migrationsTable(type: DatabaseType): string {
+  return type === DatabaseType.MSSQL ? 'dbo.schema_migrations' : 'schema_migrations'
+}
+
+function placeholders(type: DatabaseType, names: string[]): string {
+  const prefix = type === DatabaseType.MSSQL ? '@' : ':'
+  return names.map(name => `${prefix}${name}`).join(', ')
+}
+
+function createTableSql(type: DatabaseType): string {
+  if (type === DatabaseType.MSSQL) {
+    return `
+      IF OBJECT_ID('dbo.schema_migrations', 'U') IS NULL
+      CREATE TABLE dbo.schema_migrations (
+        version     varchar(50)  NOT NULL CONSTRAINT PK_schema_migrations PRIMARY KEY,
+        name        varchar(255) NOT NULL,
+        checksum    char(64)     NOT NULL,
+        applied_at  datetime2    NOT NULL,
+        duration_ms int          NOT NULL
+      )
+    `
+  }
+
+  return `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version     varchar(50)  NOT NULL PRIMARY KEY,
+      name        varchar(255) NOT NULL,
+      checksum    char(64)     NOT NULL,
+      applied_at  timestamp    NOT NULL,
+      duration_ms int          NOT NULL
+    )
+  `
+}
@@ -0,0 +1,76 @@
+/**
+ * Typed query parameters
+ * A parameter can be passed as `{ value, type }` to declare its SQL type
+ * instead of leaving the driver to infer one. SQL Server uses the type to
+ * declare the parameter (so a varchar column is compared with a varchar, not
+ * an nvarchar that forces an index scan); MySQL and PostgreSQL bind the value
+ * as usual, so the same query works against every database.
+ */
+
+/**
+ * A query parameter with an explicit SQL type
+ * The size can be part of the type ('varchar(255)', 'decimal(10,0)') or given
+ * separately with `length`, `precision` and `scale`.
+ */
+export interface TypedParameter {
+  value: any
+  type: string
+  length?: number | 'max'
+  precision?: number
+  scale?: number
+}
+
+const TYPED_PARAMETER_KEYS = new Set(['value', 'type', 'length', 'precision', 'scale'])
+
+/**
+ * Checks whether a parameter value is a typed parameter
+ * Only plain objects with `value` and a string `type` (and no keys other than
+ * the size fields) qualify, so ordinary values are never mistaken for one.
+ */
+export function isTypedParameter(param: unknown): param is TypedParameter {
+  if (!param || typeof param !== 'object' || Object.getPrototypeOf(param) !== Object.prototype) {
+    return false
+  }
+
+  const keys = Object.keys(param)
+  return keys.includes('value') &&
+    typeof (param as TypedParameter).type === 'string' &&
+    keys.every(key => TYPED_PARAMETER_KEYS.has(key))
+}
+
+/**
+ * Get the value to bind for a parameter, typed or not
+ */
+export function parameterValue(param: unknown): unknown {
+  return isTypedParameter(param) ? param.value : param
+}
+
+/**
+ * A parsed SQL type: its lower-cased name and any sizes in parentheses
+ */
+export interface ParameterType {
+  name: string
+  sizes: Array<number | 'max'>
+}
+
+/**
+ * Parses a type such as 'int', 'varchar(255)', 'varchar(max)' or 'decimal(10,0)'
+ * @throws Error if the type is not of the form `name` or `name(size[, size])`
+ */
+export function parseParameterType(type: string): ParameterType {
+  const match = type.match(/^\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\(\s*(max|\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i)
+  if (!match) {
+    throw new Error(`Invalid parameter type '${type}'`)
+  }
+
+  const [, name, first, second] = match
+  const sizes: Array<number | 'max'> = []
+  if (first !== undefined) {
+    sizes.push(first.toLowerCase() === 'max' ? 'max' : Number(first))
+  }
+  if (second !== undefined) {
+    sizes.push(Number(second))
+  }
+
+  return { name: name.toLowerCase(), sizes }
+}
@@ -0,0 +1,322 @@
+/**
+ * Dialect-aware query builder
+ * Compiles SELECT statements with filters, ordering and offset or keyset
+ * pagination for any DatabaseType: identifiers are quoted and placeholders
+ * written the way each driver expects (`@p1` for SQL Server, `:p1` for MySQL
+ * and PostgreSQL). Only the columns a query is created with can be
+ * referenced, so request input can pick columns without reaching the SQL text.
+ */
+
+import { DatabaseType } from './interfaces'
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>=' | 'like'
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * A single condition: `[column, operator, value]`, or `[column, 'in', values]`
+ */
+export type Condition =
+  | [column: string, operator: ComparisonOperator, value: unknown]
+  | [column: string, operator: 'in', values: unknown[]]
+
+/**
+ * A compiled statement, ready for `IDatabase.query` or `IDatabase.stream`
+ */
+export interface CompiledQuery {
+  sql: string
+  params: Record<string, any>
+}
+
+/**
+ * Raised when a query references a column outside its whitelist or is given
+ * invalid pagination
+ */
+export class QueryBuilderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QueryBuilderError'
+  }
+}
+
+const OPERATORS = new Set(['=', '<>', '<', '<=', '>', '>=', 'like', 'in'])
+
+// LIMIT that returns every row, for an OFFSET without a limit
+const NO_LIMIT: Record<Exclude<DatabaseType, DatabaseType.MSSQL>, string> = {
+  [DatabaseType.MySQL]: '18446744073709551615',
+  [DatabaseType.PostgreSQL]: 'ALL',
+  [DatabaseType.SQLite]: '-1'
+}
+
+/**
+ * Quotes a possibly schema-qualified identifier ('dbo.Calls') for a database type
+ */
+export function quoteIdentifier(type: DatabaseType, identifier: string): string {
+  return identifier.split('.').map((part) => {
+    switch (type) {
+      case DatabaseType.MSSQL:
+        return `[${part.replace(/]/g, ']]')}]`
+      case DatabaseType.MySQL:
+        return `\`${part.replace(/`/g, '``')}\``
+      default:
+        return `"${part.replace(/"/g, '""')}"`
+    }
+  }).join('.')
+}
+
+/**
+ * Collects parameters and writes their placeholders
+ */
+class ParameterList {
+  constructor(
+    private readonly type: DatabaseType,
+    readonly values: Record<string, any> = {}
+  ) {}
+
+  add(value: unknown): string {
+    const name = `p${Object.keys(this.values).length + 1}`
+    this.values[name] = value
+    return this.type === DatabaseType.MSSQL ? `@${name}` : `:${name}`
+  }
+
+  clone(): ParameterList {
+    return new ParameterList(this.type, { ...this.values })
+  }
+}
+
+/**
+ * A SELECT against one table
+ * Conditions are combined with AND; `whereAny` adds a group combined with OR.
+ */
+export class SelectQuery {
+  private readonly allowed: Set<string>
+  private selected: string[]
+  private readonly conditions: string[] = []
+  private readonly parameters: ParameterList
+  private readonly order: Array<{ column: string; direction: SortDirection }> = []
+  private limitCount?: number
+  private offsetCount = 0
+  private cursor?: Record<string, unknown>
+
+  constructor(
+    readonly type: DatabaseType,
+    private readonly table: string,
+    columns: readonly string[]
+  ) {
+    this.allowed = new Set(columns)
+    this.selected = [...columns]
+    this.parameters = new ParameterList(type)
+  }
+
+  /**
+   * Restricts the returned columns (all whitelisted columns by default)
+   */
+  select(columns: readonly string[]): this {
+    columns.forEach(column => this.assertColumn(column))
+    this.selected = [...columns]
+    return this
+  }
+
+  where(...condition: Condition): this {
+    this.conditions.push(this.compileCondition(condition))
+    return this
+  }
+
+  /**
+   * Adds a group of conditions of which at least one must hold
+   * An empty group matches no rows.
+   */
+  whereAny(conditions: Condition[]): this {
+    if (conditions.length === 0) {
+      this.conditions.push('1 = 0')
+      return this
+    }
+
+    const alternatives = conditions.map(condition => this.compileCondition(condition))
+    this.conditions.push(alternatives.length === 1 ? alternatives[0] : `(${alternatives.join(' OR ')})`)
+    return this
+  }
+
+  orderBy(column: string, direction: SortDirection = 'asc'): this {
+    this.assertColumn(column)
+    this.order.push({ column, direction })
+    return this
+  }
+
+  /**
+   * The columns the query is ordered by, e.g. for `keysetCursor`
+   */
+  get orderColumns(): string[] {
+    return this.order.map(({ column }) => column)
+  }
+
+  limit(count: number): this {
+    if (!Number.isSafeInteger(count) || count <= 0) {
+      throw new QueryBuilderError(`Invalid limit: ${count}`)
+    }
+    this.limitCount = count
+    return this
+  }
+
+  offset(count: number): this {
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new QueryBuilderError(`Invalid offset: ${count}`)
+    }
+    this.offsetCount = count
+    return this
+  }
+
+  /**
+   * Keyset pagination: continue after the row with these ordering values
+   * The cursor must carry a value for every orderBy column (see
+   * `keysetCursor`), and the ordering should end with a unique column so
+   * no rows are skipped or repeated. Ordering columns must not be null.
+   */
+  after(cursor: Record<string, unknown>): this {
+    if (this.order.length === 0) {
+      throw new QueryBuilderError('Keyset pagination requires orderBy')
+    }
+    for (const { column } of this.order) {
+      if (!Object.hasOwn(cursor, column)) {
+        throw new QueryBuilderError(`Cursor is missing a value for ${column}`)
+      }
+    }
+    this.cursor = cursor
+    return this
+  }
+
+  /**
+   * Compiles the query, including ordering and pagination
+   */
+  build(): CompiledQuery {
+    const parameters = this.parameters.clone()
+    const conditions = [...this.conditions]
+    if (this.cursor) {
+      conditions.push(this.compileKeyset(this.cursor, parameters))
+    }
+
+    const columns = this.selected.map(column => this.quote(column)).join(', ')
+    let sql = `SELECT ${columns} FROM ${this.quote(this.table)}${this.whereClause(conditions)}`
+
+    if (this.order.length > 0) {
+      sql += ` ORDER BY ${this.order.map(({ column, direction }) => `${this.quote(column)} ${direction.toUpperCase()}`).join(', ')}`
+    }
+
+    // Limits are validated integers, written inline because MySQL does not
+    // accept bound LIMIT values in prepared statements
+    if (this.limitCount !== undefined || this.offsetCount > 0) {
+      if (this.type === DatabaseType.MSSQL) {
+        if (this.order.length === 0) {
+          sql += ' ORDER BY (SELECT NULL)'
+        }
+        sql += ` OFFSET ${this.offsetCount} ROWS`
+        if (this.limitCount !== undefined) {
+          sql += ` FETCH NEXT ${this.limitCount} ROWS ONLY`
+        }
+      } else {
+        // MySQL and SQLite have no OFFSET without LIMIT; their documented "all
+        // rows" limits are the largest BIGINT UNSIGNED and any negative number
+        const limit = this.limitCount ?? NO_LIMIT[this.type]
+        sql += ` LIMIT ${limit}`
+        if (this.offsetCount > 0) {
+          sql += ` OFFSET ${this.offsetCount}`
+        }
+      }
+    }
+
+    return { sql, params: parameters.values }
+  }
+
+  /**
+   * Compiles a count of the filtered rows, ignoring ordering and pagination
+   */
+  buildCount(): CompiledQuery {
+    return {
+      sql: `SELECT COUNT(*) AS total FROM ${this.quote(this.table)}${this.whereClause(this.conditions)}`,
+      params: { ...this.parameters.values }
+    }
+  }
+
+  private whereClause(conditions: string[]): string {
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+  }
+
+  private compileCondition([column, operator, value]: Condition): string {
+    this.assertColumn(column)
+    if (!OPERATORS.has(operator)) {
+      throw new QueryBuilderError(`Unsupported operator: ${operator}`)
+    }
+
+    const quoted = this.quote(column)
+    if (operator === 'in') {
+      const values = value as unknown[]
+      if (values.length === 0) {
+        return '1 = 0'
+      }
+      return `${quoted} IN (${values.map(item => this.parameters.add(item)).join(', ')})`
+    }
+
+    return `${quoted} ${operator.toUpperCase()} ${this.parameters.add(value)}`
+  }
+
+  /**
+   * (a > :a) OR (a = :a AND b > :b) ... for ordering a, b, ...
+   */
+  private compileKeyset(cursor: Record<string, unknown>, parameters: ParameterList): string {
+    const placeholders = this.order.map(({ column }) => parameters.add(cursor[column]))
+
+    const alternatives = this.order.map(({ direction }, index) => {
+      const equal = this.order
+        .slice(0, index)
+        .map(({ column }, previous) => `${this.quote(column)} = ${placeholders[previous]}`)
+      const column = this.quote(this.order[index].column)
+      const comparison = `${column} ${direction === 'desc' ? '<' : '>'} ${placeholders[index]}`
+      return [...equal, comparison].join(' AND ')
+    })
+
+    return alternatives.length === 1 ? alternatives[0] : `(${alternatives.map(part => `(${part})`).join(' OR ')})`
+  }
+
+  private assertColumn(column: string): void {
+    if (!this.allowed.has(column)) {
+      throw new QueryBuilderError(`Column not allowed: ${column}`)
+    }
+  }
+
+  private quote(identifier: string): string {
+    return quoteIdentifier(this.type, identifier)
+  }
+}
+
+/**
+ * Starts a SELECT against a table
+ * @param type The database type the SQL is compiled for
+ * @param table The table, optionally schema-qualified
+ * @param columns The columns queries may select, filter and order by
+ */
+export function selectFrom(type: DatabaseType, table: string, columns: readonly string[]): SelectQuery {
+  return new SelectQuery(type, table, columns)
+}
+
+/**
+ * Encodes the ordering values of the last row of a page as an opaque cursor
+ */
+export function keysetCursor(row: object, columns: readonly string[]): string {
+  const values = Object.fromEntries(columns.map(column => [column, (row as Record<string, unknown>)[column]]))
+  return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+/**
+ * Decodes a cursor made by `keysetCursor`
+ * @throws QueryBuilderError if the cursor is malformed
+ */
+export function parseKeysetCursor(cursor: string): Record<string, unknown> {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (values && typeof values === 'object' && !Array.isArray(values)) {
+      return values
+    }
+  } catch {
+    // Reported below
+  }
+  throw new QueryBuilderError('Invalid cursor')
+}
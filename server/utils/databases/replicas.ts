@@ -0,0 +1,318 @@
+/**
+ * Read replicas
+ * A database can declare read replicas. Reads marked `readOnly`, and reads
+ * made while serving one of the database's `replicaRoutes`, go to the
+ * available replicas in turn. The primary serves them when no replica is
+ * available or the chosen one cannot be reached. Writes, stored procedures
+ * and transactions always use the primary.
+ */
+
+import consola from 'consola'
+import {
+  IDatabase,
+  DatabaseType,
+  QueryResult,
+  Transaction,
+  ConnectionStats,
+  QueryOptions,
+  TransactionOptions,
+  type DatabaseConfig,
+  type ReplicaConfig
+} from './interfaces'
+import { classifyDatabaseError } from './errors'
+import { isIdempotentRead, type CircuitBreaker, type CircuitBreakerStatus } from './resilience'
+
+// How long a measured replica lag is trusted before it is measured again
+const LAG_CHECK_INTERVAL_MS = 10000
+const LAG_CHECK_TIMEOUT_MS = 5000
+
+// Redo queue (KB) over redo rate (KB/s) estimates how far behind the local
+// secondary is; NULL means redo has stalled with work queued
+const MSSQL_REDO_LAG_SQL = `
+  SELECT CASE WHEN redo_queue_size = 0 THEN 0 ELSE redo_queue_size / NULLIF(redo_rate, 0) END AS lagSeconds
+  FROM sys.dm_hadr_database_replica_states
+  WHERE is_local = 1 AND database_id = DB_ID()
+`
+
+/**
+ * The name a replica is registered under
+ */
+export function replicaName(database: DatabaseConfig, replica: ReplicaConfig, index: number): string {
+  return replica.name || `${database.name}-replica${index + 1}`
+}
+
+/**
+ * Checks a request path against route patterns
+ * A pattern matches its exact path, or every path below it when it ends in `/**`.
+ */
+export function matchesRoute(path: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern.endsWith('/**')) {
+      const prefix = pattern.slice(0, -3)
+      return path === prefix || path.startsWith(`${prefix}/`)
+    }
+    return path === pattern
+  })
+}
+
+/**
+ * A replica connection with its own circuit breaker
+ */
+export interface Replica {
+  name: string
+  config: ReplicaConfig
+  connection: IDatabase
+  breaker: CircuitBreaker
+}
+
+/**
+ * Replica state as shown by the health endpoints
+ */
+export interface ReplicaHealth {
+  name: string
+  healthy: boolean
+  status: 'healthy' | 'unhealthy' | 'lagging' | 'disabled'
+  lagSeconds: number | null
+  maxLagSeconds: number | null
+  circuit: CircuitBreakerStatus
+}
+
+interface LagMeasurement {
+  seconds: number | null
+  checkedAt: number
+  pending: Promise<void> | null
+}
+
+/**
+ * Connection that sends reads to replicas and everything else to the primary
+ */
+export class ReplicatedConnection implements IDatabase {
+  private nextReplica = 0
+  private readonly lag = new Map<string, LagMeasurement>()
+
+  constructor(
+    private readonly primary: IDatabase,
+    private readonly replicas: Replica[],
+    private readonly routes: readonly string[]
+  ) {}
+
+  get name(): string {
+    return this.primary.name
+  }
+
+  get type(): DatabaseType {
+    return this.primary.type
+  }
+
+  /**
+   * Connects the primary; replicas that cannot be reached are skipped until
+   * their circuit lets a query through
+   */
+  async connect(): Promise<void> {
+    await this.primary.connect()
+
+    await Promise.all(this.enabledReplicas().map(replica => replica.connection.connect().catch((error) => {
+      consola.warn(`[${this.name}] Replica '${replica.name}' is unavailable, reads will use the primary:`, error)
+    })))
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all([
+      this.primary.disconnect(),
+      ...this.replicas.map(replica => replica.connection.disconnect())
+    ])
+  }
+
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    const replica = this.chooseReplica(sql, options)
+    if (!replica) {
+      return this.primary.query<T>(sql, params, options)
+    }
+
+    try {
+      return await replica.connection.query<T>(sql, params, options)
+    } catch (error) {
+      if (!isReplicaUnavailable(error)) {
+        throw error
+      }
+      consola.warn(`[${this.name}] Replica '${replica.name}' is unavailable, reading from the primary`)
+      return this.primary.query<T>(sql, params, options)
+    }
+  }
+
+  /**
+   * Streams from a replica, falling back to the primary only if the replica
+   * fails before any row was returned
+   */
+  async *stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncGenerator<T> {
+    const replica = this.chooseReplica(sql, options)
+    if (!replica) {
+      yield* this.primary.stream<T>(sql, params, options)
+      return
+    }
+
+    let started = false
+    try {
+      for await (const row of replica.connection.stream<T>(sql, params, options)) {
+        started = true
+        yield row
+      }
+    } catch (error) {
+      if (started || !isReplicaUnavailable(error)) {
+        throw error
+      }
+      consola.warn(`[${this.name}] Replica '${replica.name}' is unavailable, streaming from the primary`)
+      yield* this.primary.stream<T>(sql, params, options)
+    }
+  }
+
+  async execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    return this.primary.execute!<T>(procedure, params, options)
+  }
+
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
+    return this.primary.beginTransaction!(options)
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.primary.testConnection()
+  }
+
+  /**
+   * Primary statistics, with each connected replica's under `replicas`
+   */
+  getStats(): ConnectionStats {
+    const stats = this.primary.getStats!()
+    const replicas: Record<string, ConnectionStats> = {}
+
+    for (const replica of this.replicas) {
+      if (replica.connection.getStats) {
+        replicas[replica.name] = replica.connection.getStats()
+      }
+    }
+
+    return { ...stats, replicas }
+  }
+
+  /**
+   * Tests every replica and, where configured, measures its lag
+   */
+  async checkReplicas(): Promise<ReplicaHealth[]> {
+    return Promise.all(this.replicas.map(async (replica): Promise<ReplicaHealth> => {
+      const maxLagSeconds = this.maxLagSeconds(replica)
+
+      if (replica.config.enabled === false) {
+        return { name: replica.name, healthy: false, status: 'disabled', lagSeconds: null, maxLagSeconds, circuit: replica.breaker.getStatus() }
+      }
+
+      const reachable = await replica.connection.testConnection()
+      if (reachable && maxLagSeconds !== null) {
+        await this.measureLag(replica)
+      }
+
+      const lagSeconds = this.lag.get(replica.name)?.seconds ?? null
+      const lagging = maxLagSeconds !== null && lagSeconds !== null && lagSeconds > maxLagSeconds
+
+      return {
+        name: replica.name,
+        healthy: reachable && !lagging,
+        status: !reachable ? 'unhealthy' : lagging ? 'lagging' : 'healthy',
+        lagSeconds,
+        maxLagSeconds,
+        circuit: replica.breaker.getStatus()
+      }
+    }))
+  }
+
+  /**
+   * Picks the replica for a statement, or null for the primary
+   * Explicit `readOnly` wins; otherwise reads on a replica route qualify.
+   * Replicas are used in turn, skipping disabled ones, those with an open
+   * circuit and those lagging further behind than allowed.
+   */
+  private chooseReplica(sql: string, options?: QueryOptions): Replica | null {
+    const readOnly = options?.readOnly ??
+      (!!options?.route && matchesRoute(options.route, this.routes) && isIdempotentRead(sql))
+    if (!readOnly) {
+      return null
+    }
+
+    const replicas = this.enabledReplicas()
+    for (let tried = 0; tried < replicas.length; tried++) {
+      const replica = replicas[this.nextReplica++ % replicas.length]
+      if (isCircuitOpen(replica.breaker.getStatus()) || this.isLagging(replica)) {
+        continue
+      }
+      return replica
+    }
+
+    return null
+  }
+
+  private enabledReplicas(): Replica[] {
+    return this.replicas.filter(replica => replica.config.enabled !== false)
+  }
+
+  private maxLagSeconds(replica: Replica): number | null {
+    return this.type === DatabaseType.MSSQL && replica.config.maxLagSeconds !== undefined
+      ? replica.config.maxLagSeconds
+      : null
+  }
+
+  /**
+   * Uses the last measured lag, measuring again in the background once it is stale
+   * A replica whose lag has not been measured yet is assumed to be current.
+   */
+  private isLagging(replica: Replica): boolean {
+    const maxLagSeconds = this.maxLagSeconds(replica)
+    if (maxLagSeconds === null) {
+      return false
+    }
+
+    const measurement = this.lag.get(replica.name)
+    if (!measurement || Date.now() - measurement.checkedAt > LAG_CHECK_INTERVAL_MS) {
+      void this.measureLag(replica)
+    }
+
+    const seconds = measurement?.seconds ?? null
+    return seconds !== null && seconds > maxLagSeconds
+  }
+
+  /**
+   * Measures a SQL Server replica's redo lag; one measurement runs at a time
+   * A database outside an Availability Group reports no lag.
+   */
+  private measureLag(replica: Replica): Promise<void> {
+    const measurement = this.lag.get(replica.name) ?? { seconds: null, checkedAt: 0, pending: null }
+    this.lag.set(replica.name, measurement)
+
+    measurement.pending ??= replica.connection
+      .query<{ lagSeconds: number | null }>(MSSQL_REDO_LAG_SQL, undefined, { timeoutMs: LAG_CHECK_TIMEOUT_MS })
+      .then((result) => {
+        const row = result.rows[0]
+        measurement.seconds = !row ? null : row.lagSeconds === null ? Infinity : Number(row.lagSeconds)
+      })
+      .catch((error) => {
+        consola.warn(`[${this.name}] Could not measure lag of replica '${replica.name}':`, error)
+      })
+      .finally(() => {
+        measurement.checkedAt = Date.now()
+        measurement.pending = null
+      })
+
+    return measurement.pending
+  }
+}
+
+function isCircuitOpen(circuit: CircuitBreakerStatus): boolean {
+  return circuit.state === 'open' && !!circuit.retryAt && Date.now() < Date.parse(circuit.retryAt)
+}
+
+/**
+ * Failures that mean the replica cannot serve the read, rather than a
+ * problem with the read itself
+ */
+function isReplicaUnavailable(error: unknown): boolean {
+  const kind = classifyDatabaseError(error)
+  return kind === 'connection' || kind === 'auth'
+}
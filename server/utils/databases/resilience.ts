@@ -0,0 +1,368 @@
+/**
+ * Retry and circuit breaking for database connections
+ * Transient failures (connection resets, failovers, deadlock victims, login
+ * timeouts) are retried with jittered exponential backoff for idempotent
+ * reads. Each database has a circuit breaker that fails fast while the
+ * database is down and lets a single probe through once the reset timeout
+ * has passed.
+ */
+
+import consola from 'consola'
+import {
+  IDatabase,
+  DatabaseType,
+  DatabaseError,
+  QueryResult,
+  Transaction,
+  ConnectionStats,
+  RetryConfig,
+  CircuitBreakerConfig,
+  QueryOptions,
+  TransactionOptions
+} from './interfaces'
+import { errorChain, classifyDatabaseError } from './errors'
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  attempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 2000
+}
+
+const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000
+}
+
+// Socket and driver codes for dropped or refused connections
+// mssql: ESOCKET, ECONNCLOSED; mysql2: PROTOCOL_CONNECTION_LOST
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN',
+  'ESOCKET', 'ECONNCLOSED', 'PROTOCOL_CONNECTION_LOST'
+])
+
+// SQL Server error numbers: deadlock victim, database unavailable during
+// failover, Azure/AG transient errors and transport-level failures
+const TRANSIENT_MSSQL_NUMBERS = new Set([1205, 4060, 40197, 40501, 40613, 49918, 49919, 49920, 233, 64, 10053, 10054, 10060])
+
+// MySQL errno: deadlock, lock wait timeout, server gone away, lost connection
+const TRANSIENT_MYSQL_ERRNOS = new Set([1213, 1205, 2006, 2013])
+
+// PostgreSQL SQLSTATE: deadlock, serialization failure, admin shutdown, starting up
+const TRANSIENT_PG_STATES = new Set(['40P01', '40001', '57P01', '57P03'])
+
+/**
+ * Checks whether a failure is likely to succeed if retried
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false
+  }
+
+  for (const err of errorChain(error)) {
+    const code = typeof err.code === 'string' ? err.code : undefined
+
+    if (code && TRANSIENT_CODES.has(code)) {
+      return true
+    }
+    // A timeout while connecting is a login timeout; query timeouts are not retried
+    if (code === 'ETIMEOUT' && err.name === 'ConnectionError') {
+      return true
+    }
+    if (typeof err.number === 'number' && TRANSIENT_MSSQL_NUMBERS.has(err.number)) {
+      return true
+    }
+    if (typeof err.errno === 'number' && err.sqlState !== undefined && TRANSIENT_MYSQL_ERRNOS.has(err.errno)) {
+      return true
+    }
+    if (code && (TRANSIENT_PG_STATES.has(code) || /^08[0-9A-Z]{3}$/.test(code))) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Checks whether a statement only reads data and is safe to repeat
+ * Anything that might write (SELECT ... INTO, data-modifying CTEs) is excluded.
+ */
+export function isIdempotentRead(sql: string): boolean {
+  const statement = sql
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+    .trim()
+
+  return /^(select|with)\b/i.test(statement) &&
+    !/\b(insert|update|delete|merge|into|exec|execute|call)\b/i.test(statement)
+}
+
+/**
+ * Delay before a retry: full jitter over an exponentially growing window
+ * @param attempt Number of attempts made so far (1 for the first retry)
+ */
+export function backoffDelay(attempt: number, config: RetryConfig = {}): number {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...config }
+  const window = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return Math.floor(Math.random() * window)
+}
+
+/**
+ * Error thrown without touching the database while its circuit is open
+ */
+export class CircuitOpenError extends DatabaseError {
+  constructor(database: string, type: DatabaseType, public readonly retryAt: Date) {
+    super(`Database '${database}' is unavailable (circuit open until ${retryAt.toISOString()})`, database, type, undefined, 'connection')
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Circuit breaker state as shown by /api/health/all
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: string | null
+  retryAt: string | null
+  lastError: string | null
+}
+
+/**
+ * Per-database circuit breaker
+ * Opens after `failureThreshold` consecutive transient failures. Once
+ * `resetTimeoutMs` has passed a single probe is let through (half-open): if it
+ * succeeds the circuit closes, otherwise it opens again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private probeInFlight = false
+  private lastError: string | null = null
+  private readonly config: Required<CircuitBreakerConfig>
+
+  constructor(
+    private readonly database: string,
+    private readonly type: DatabaseType,
+    config: CircuitBreakerConfig = {}
+  ) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER, ...config }
+  }
+
+  /**
+   * Runs an operation through the breaker
+   * @throws CircuitOpenError if the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const probe = this.acquire()
+
+    try {
+      const result = await operation()
+      this.recordSuccess()
+      return result
+    } catch (error) {
+      this.recordFailure(error)
+      throw error
+    } finally {
+      this.release(probe)
+    }
+  }
+
+  /**
+   * Checks whether a call may go ahead
+   * @returns true if this call is the half-open probe
+   * @throws CircuitOpenError if the circuit is open
+   */
+  acquire(): boolean {
+    if (this.state === 'closed') {
+      return false
+    }
+
+    const retryAt = this.openedAt! + this.config.resetTimeoutMs
+    if (Date.now() < retryAt || this.probeInFlight) {
+      throw new CircuitOpenError(this.database, this.type, new Date(retryAt))
+    }
+
+    this.state = 'half-open'
+    this.probeInFlight = true
+    return true
+  }
+
+  /**
+   * Ends a call started with acquire()
+   */
+  release(probe: boolean): void {
+    if (probe) {
+      this.probeInFlight = false
+    }
+  }
+
+  /**
+   * Closes the circuit after a successful call
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      consola.success(`[${this.database}] Circuit closed, database is reachable again`)
+    }
+
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+  }
+
+  /**
+   * Counts a failure; only transient failures can open the circuit
+   * Other errors (bad SQL, constraint violations) prove the database answered.
+   * Queries cancelled by the caller say nothing about the database.
+   */
+  recordFailure(error: unknown): void {
+    if (classifyDatabaseError(error) === 'cancelled') {
+      return
+    }
+
+    if (!isTransientError(error)) {
+      this.recordSuccess()
+      return
+    }
+
+    // Keep the driver's message (e.g. ECONNREFUSED) rather than our wrapper's
+    const cause = (error as DatabaseError)?.originalError || error
+    this.consecutiveFailures++
+    this.lastError = cause instanceof Error ? cause.message : String(cause)
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.open()
+    }
+  }
+
+  /**
+   * Current state for health reporting
+   */
+  getStatus(): CircuitBreakerStatus {
+    const open = this.state !== 'closed' && this.openedAt !== null
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: open ? new Date(this.openedAt!).toISOString() : null,
+      retryAt: open ? new Date(this.openedAt! + this.config.resetTimeoutMs).toISOString() : null,
+      lastError: this.lastError
+    }
+  }
+
+  private open(): void {
+    if (this.state === 'closed') {
+      consola.warn(`[${this.database}] Circuit opened after ${this.consecutiveFailures} consecutive failure(s); failing fast for ${this.config.resetTimeoutMs}ms`)
+    }
+
+    this.state = 'open'
+    this.openedAt = Date.now()
+  }
+}
+
+/**
+ * Connection wrapper adding the circuit breaker and read retries
+ * The DatabaseManager wraps every driver connection with this, so callers
+ * get the behaviour without changes.
+ */
+export class ResilientConnection implements IDatabase {
+  private readonly retry: Required<RetryConfig>
+
+  constructor(
+    private readonly inner: IDatabase,
+    private readonly breaker: CircuitBreaker,
+    retry: RetryConfig = {}
+  ) {
+    this.retry = { ...DEFAULT_RETRY, ...retry }
+  }
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  get type(): DatabaseType {
+    return this.inner.type
+  }
+
+  async connect(): Promise<void> {
+    await this.breaker.execute(() => this.inner.connect())
+  }
+
+  async disconnect(): Promise<void> {
+    await this.inner.disconnect()
+  }
+
+  /**
+   * Runs a query; reads are retried on transient errors
+   */
+  async query<T = any>(sql: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    const attempts = isIdempotentRead(sql) ? this.retry.attempts : 1
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.breaker.execute(() => this.inner.query<T>(sql, params, options))
+      } catch (error) {
+        if (attempt >= attempts || !isTransientError(error)) {
+          throw error
+        }
+
+        const delay = backoffDelay(attempt, this.retry)
+        consola.warn(`[${this.name}] Transient error, retrying read in ${delay}ms (attempt ${attempt + 1}/${attempts})`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  /**
+   * Streams a query through the breaker
+   * Streams are never retried: rows may already have been handed to the caller.
+   */
+  async *stream<T = any>(sql: string, params?: any, options?: QueryOptions): AsyncGenerator<T> {
+    const probe = this.breaker.acquire()
+
+    try {
+      yield* this.inner.stream<T>(sql, params, options)
+      this.breaker.recordSuccess()
+    } catch (error) {
+      this.breaker.recordFailure(error)
+      throw error
+    } finally {
+      this.breaker.release(probe)
+    }
+  }
+
+  async execute<T = any>(procedure: string, params?: any, options?: QueryOptions): Promise<QueryResult<T>> {
+    if (!this.inner.execute) {
+      throw new DatabaseError(`Stored procedures are not supported on database: ${this.name}`, this.name, this.type)
+    }
+    return this.breaker.execute(() => this.inner.execute!<T>(procedure, params, options))
+  }
+
+  async beginTransaction(options?: TransactionOptions): Promise<Transaction> {
+    if (!this.inner.beginTransaction) {
+      throw new DatabaseError(`Transactions are not supported on database: ${this.name}`, this.name, this.type)
+    }
+    return this.breaker.execute(() => this.inner.beginTransaction!(options))
+  }
+
+  /**
+   * Tests the connection with a trivial query, which counts towards the breaker
+   * Reports false without a round trip while the circuit is open.
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.breaker.execute(() => this.inner.query('SELECT 1 AS test'))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  getStats(): ConnectionStats {
+    return this.inner.getStats
+      ? this.inner.getStats()
+      : { active: 0, idle: 0, total: 0 }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Slow-query log
+ * Logs every query that takes longer than DB_SLOW_QUERY_MS (default 1000ms;
+ * 0 turns the log off). An entry has the normalized SQL, the parameter
+ * names, the row count, the duration and the route it ran for. Parameter
+ * values are never logged.
+ */
+
+import consola from 'consola'
+import { databaseEvents } from './events'
+import type { QueryEvent } from './interfaces'
+
+const DEFAULT_SLOW_QUERY_MS = 1000
+
+/**
+ * A slow-query log entry
+ */
+export interface SlowQueryEntry {
+  database: string
+  kind: QueryEvent['kind']
+  sql: string             // Normalized
+  paramNames: string[]
+  rowCount: number
+  durationMs: number
+  route?: string
+  failed: boolean
+}
+
+/**
+ * Queries taking longer than this many milliseconds are slow; 0 if the log is off
+ */
+export function getSlowQueryThresholdMs(): number {
+  const threshold = Number(process.env.DB_SLOW_QUERY_MS ?? DEFAULT_SLOW_QUERY_MS)
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : 0
+}
+
+/**
+ * Reduces a statement to its shape, so the same query logs the same way
+ * whatever literals it was built with: string and number literals become `?`
+ * and whitespace and comments are collapsed.
+ */
+export function normalizeSql(sql: string): string {
+  return sql
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/N?'(?:[^']|'')*'/g, '?')
+    .replace(/(?<![\w@:$.])-?\d+(?:\.\d+)?\b/g, '?')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Build the log entry for a query, or null if it was not slow
+ */
+export function toSlowQueryEntry(event: QueryEvent, thresholdMs = getSlowQueryThresholdMs()): SlowQueryEntry | null {
+  if (!thresholdMs || event.durationMs < thresholdMs) {
+    return null
+  }
+
+  return {
+    database: event.database,
+    kind: event.kind,
+    sql: normalizeSql(event.sql),
+    paramNames: event.paramNames,
+    rowCount: event.rowCount,
+    durationMs: event.durationMs,
+    route: event.route,
+    failed: Boolean(event.error)
+  }
+}
+
+/**
+ * Start logging slow queries from every database
+ * @returns Stops the log
+ */
+export function subscribeSlowQueryLog(): () => void {
+  return databaseEvents.on('query', (event) => {
+    const entry = toSlowQueryEntry(event)
+    if (!entry) {
+      return
+    }
+
+    const outcome = entry.failed ? 'failed' : `${entry.rowCount} row(s)`
+    const params = entry.paramNames.length > 0 ? ` [params: ${entry.paramNames.join(', ')}]` : ''
+    consola.warn(`[${entry.database}] Slow ${entry.kind} (${entry.durationMs}ms, ${outcome}${entry.route ? `, ${entry.route}` : ''}): ${entry.sql}${params}`)
+  })
+}
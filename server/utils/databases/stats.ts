@@ -0,0 +1,77 @@
+/**
+ * Cumulative query counters shared by the connection classes
+ */
+
+import type { QueryCounters } from './interfaces'
+
+// Driver error codes that mean a query or connection attempt timed out
+// mssql: ETIMEOUT; mysql2: PROTOCOL_SEQUENCE_TIMEOUT, ER_QUERY_TIMEOUT (3024);
+// pg: 57014 (statement_timeout / cancel); node sockets: ETIMEDOUT
+const TIMEOUT_CODES = new Set(['ETIMEOUT', 'ETIMEDOUT', 'PROTOCOL_SEQUENCE_TIMEOUT', 'ER_QUERY_TIMEOUT', '57014'])
+
+/**
+ * Checks whether a driver error is a timeout
+ * Also matches tarn's acquire TimeoutError and pg's client-side query_timeout,
+ * which carry no code.
+ */
+export function isTimeoutError(error: unknown): boolean {
+  const err = error as { code?: string, errno?: number, name?: string, message?: string } | null
+  if (!err) {
+    return false
+  }
+
+  return TIMEOUT_CODES.has(String(err.code)) ||
+    err.errno === 3024 ||
+    err.name === 'TimeoutError' ||
+    /timeout exceeded|query read timeout/i.test(err.message || '')
+}
+
+/**
+ * Tracks query, error, timeout and pool acquire counts for one database
+ * Counters are cumulative for the lifetime of the connection object.
+ */
+export class QueryStatsCollector {
+  private counters: QueryCounters = {
+    queries: 0,
+    errors: 0,
+    timeouts: 0,
+    acquires: 0,
+    acquireWaitMs: 0,
+    avgAcquireWaitMs: 0,
+    maxAcquireWaitMs: 0
+  }
+
+  /**
+   * Count a query that was sent to the server
+   */
+  recordQuery(): void {
+    this.counters.queries++
+  }
+
+  /**
+   * Count a failed query, classifying timeouts separately
+   */
+  recordError(error: unknown): void {
+    this.counters.errors++
+    if (isTimeoutError(error)) {
+      this.counters.timeouts++
+    }
+  }
+
+  /**
+   * Record how long a caller waited for a pooled connection
+   */
+  recordAcquire(waitMs: number): void {
+    this.counters.acquires++
+    this.counters.acquireWaitMs += waitMs
+    this.counters.avgAcquireWaitMs = Math.round(this.counters.acquireWaitMs / this.counters.acquires)
+    this.counters.maxAcquireWaitMs = Math.max(this.counters.maxAcquireWaitMs, waitMs)
+  }
+
+  /**
+   * Get a copy of the counters
+   */
+  snapshot(): QueryCounters {
+    return { ...this.counters }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Transactions
+ * Isolation levels and savepoints for each database type. Savepoints let part
+ * of a transaction be rolled back without abandoning the whole transaction,
+ * and can be nested.
+ */
+
+import { DatabaseError, DatabaseType, type IsolationLevel } from './interfaces'
+
+const ISOLATION_LEVEL_SQL: Record<IsolationLevel, string> = {
+  'read uncommitted': 'READ UNCOMMITTED',
+  'read committed': 'READ COMMITTED',
+  'repeatable read': 'REPEATABLE READ',
+  'serializable': 'SERIALIZABLE',
+  'snapshot': 'SNAPSHOT'
+}
+
+/**
+ * Get the SQL name of an isolation level, e.g. 'REPEATABLE READ'
+ * @throws DatabaseError for levels the database does not have (snapshot
+ *   outside SQL Server; PostgreSQL's repeatable read is already snapshot isolation)
+ */
+export function isolationLevelSql(database: string, type: DatabaseType, level: IsolationLevel): string {
+  if (!Object.hasOwn(ISOLATION_LEVEL_SQL, level) || (level === 'snapshot' && type !== DatabaseType.MSSQL)) {
+    throw new DatabaseError(`Isolation level '${level}' is not supported on database: ${database}`, database, type)
+  }
+  return ISOLATION_LEVEL_SQL[level]
+}
+
+const SAVEPOINT_STATEMENTS: Record<DatabaseType, {
+  create: (name: string) => string
+  rollback: (name: string) => string
+  // SQL Server has no release; its savepoints end with the transaction
+  release: ((name: string) => string) | null
+}> = {
+  [DatabaseType.MSSQL]: {
+    create: name => `SAVE TRANSACTION ${name}`,
+    rollback: name => `ROLLBACK TRANSACTION ${name}`,
+    release: null
+  },
+  [DatabaseType.MySQL]: {
+    create: name => `SAVEPOINT ${name}`,
+    rollback: name => `ROLLBACK TO SAVEPOINT ${name}`,
+    release: name => `RELEASE SAVEPOINT ${name}`
+  },
+  [DatabaseType.PostgreSQL]: {
+    create: name => `SAVEPOINT ${name}`,
+    rollback: name => `ROLLBACK TO SAVEPOINT ${name}`,
+    release: name => `RELEASE SAVEPOINT ${name}`
+  },
+  [DatabaseType.SQLite]: {
+    create: name => `SAVEPOINT ${name}`,
+    rollback: name => `ROLLBACK TO SAVEPOINT ${name}`,
+    release: name => `RELEASE SAVEPOINT ${name}`
+  }
+}
+
+/**
+ * Runs `fn` inside a savepoint
+ * If `fn` throws, the transaction is rolled back to the savepoint and the
+ * error rethrown; the rest of the transaction stays usable.
+ * @param name Savepoint name, unique within the transaction
+ * @param run Runs a statement on the transaction's connection
+ */
+export async function runInSavepoint<T>(
+  type: DatabaseType,
+  name: string,
+  run: (sql: string) => Promise<unknown>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const statements = SAVEPOINT_STATEMENTS[type]
+  await run(statements.create(name))
+
+  let result: T
+  try {
+    result = await fn()
+  } catch (error) {
+    await run(statements.rollback(name))
+    throw error
+  }
+
+  if (statements.release) {
+    await run(statements.release(name))
+  }
+  return result
+}
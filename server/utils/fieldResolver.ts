@@ -6,12 +6,13 @@
 import { DatabaseManager } from './databases'
 import { transformRecordset } from './caseMapper'
 
-// Initialize database manager
-DatabaseManager.loadFromEnvironment()
 const db = DatabaseManager.getInstance()
 import type { DirListingField, FieldProcessingResult } from '../types/database'
 import { extractFields, replaceFields, getFieldIds, type ParsedField, type ParsingResult } from './htmlFieldParser'
 
+// Field values are cached per client; invalidate with the `client:<cltId>` tag
+const FIELD_CACHE_TTL_MS = 5 * 60 * 1000
+
 /**
  * Resolves field values for a single client's HTML content
  */
@@ -88,7 +89,9 @@ async function batchGetFieldValues(
     
     // Execute query and transform to camelCase
     const intelligentDb = await db.get('default')
-    const result = await intelligentDb.query<DirListingField>(sqlQuery, params)
+    const result = await intelligentDb.query<DirListingField>(sqlQuery, params, {
+      cache: { ttlMs: FIELD_CACHE_TTL_MS, tags: [`client:${cltId}`] }
+    })
     const transformedResults = transformRecordset<DirListingField>(result.rows)
     
     // Map results by fieldId (trim all field values)
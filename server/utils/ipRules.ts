@@ -0,0 +1,118 @@
+/**
+ * IP Rules Utility
+ * CIDR allowlists for API keys and client address resolution behind our load
+ * balancer. X-Forwarded-For is only honoured when the direct peer is a trusted proxy.
+ */
+
+import { BlockList, isIP } from 'net'
+import { getRequestHeader, type H3Event } from 'h3'
+
+let trustedProxies: BlockList | null = null
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix (::ffff:10.0.0.1 -> 10.0.0.1)
+ */
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim()
+  return trimmed.toLowerCase().startsWith('::ffff:') && isIP(trimmed.slice(7)) === 4
+    ? trimmed.slice(7)
+    : trimmed
+}
+
+/**
+ * Checks whether a string is a valid IPv4/IPv6 address or CIDR range
+ */
+export function isValidCidr(cidr: string): boolean {
+  const [address, prefix, ...rest] = cidr.trim().split('/')
+  const family = isIP(address)
+
+  if (!family || rest.length > 0) {
+    return false
+  }
+  if (prefix === undefined) {
+    return true
+  }
+
+  const bits = Number(prefix)
+  return /^\d+$/.test(prefix) && bits >= 0 && bits <= (family === 4 ? 32 : 128)
+}
+
+/**
+ * Builds a matcher from a list of addresses and CIDR ranges
+ * Bare addresses are treated as /32 (IPv4) or /128 (IPv6).
+ * @throws Error naming the first invalid entry
+ */
+export function createCidrMatcher(cidrs: string[]): BlockList {
+  const list = new BlockList()
+
+  for (const cidr of cidrs) {
+    if (!isValidCidr(cidr)) {
+      throw new Error(`Invalid CIDR range: ${cidr}`)
+    }
+
+    const [address, prefix] = cidr.trim().split('/')
+    const family = isIP(address) === 4 ? 'ipv4' : 'ipv6'
+    list.addSubnet(address, prefix === undefined ? (family === 'ipv4' ? 32 : 128) : Number(prefix), family)
+  }
+
+  return list
+}
+
+/**
+ * Checks an address against a matcher
+ */
+export function matchesCidr(matcher: BlockList, address: string): boolean {
+  const normalized = normalizeAddress(address)
+  const family = isIP(normalized)
+
+  if (!family) {
+    return false
+  }
+
+  return matcher.check(normalized, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Get the trusted proxy matcher from TRUSTED_PROXIES (comma-separated CIDRs)
+ */
+function getTrustedProxies(): BlockList {
+  if (!trustedProxies) {
+    const cidrs = (process.env.TRUSTED_PROXIES || '').split(',').map(cidr => cidr.trim()).filter(Boolean)
+    trustedProxies = createCidrMatcher(cidrs)
+  }
+  return trustedProxies
+}
+
+/**
+ * Resolves the real client address for a request
+ * When the direct peer is a trusted proxy, X-Forwarded-For is walked from the
+ * right, skipping further trusted proxies; the first untrusted hop is the client.
+ */
+export function getClientAddress(event: H3Event): string | undefined {
+  const peer = event.node.req.socket.remoteAddress
+  if (!peer) {
+    return undefined
+  }
+
+  const proxies = getTrustedProxies()
+  if (!matchesCidr(proxies, peer)) {
+    return normalizeAddress(peer)
+  }
+
+  const forwardedFor = getRequestHeader(event, 'x-forwarded-for')
+  if (!forwardedFor) {
+    return normalizeAddress(peer)
+  }
+
+  const hops = forwardedFor.split(',').map(hop => normalizeAddress(hop)).filter(Boolean)
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isIP(hops[i])) {
+      break
+    }
+    if (!matchesCidr(proxies, hops[i]) || i === 0) {
+      return hops[i]
+    }
+  }
+
+  return normalizeAddress(peer)
+}
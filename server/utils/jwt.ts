@@ -0,0 +1,121 @@
+/**
+ * JWT Bearer Authentication
+ * Verifies tokens issued by our internal web apps and maps them onto the
+ * same principal/scope model used by API keys.
+ */
+
+import { readFileSync } from 'fs'
+import { createLocalJWKSet, importSPKI, jwtVerify, errors, type JWTPayload, type JWTVerifyGetKey, type CryptoKey } from 'jose'
+import type { Principal } from '../types/auth'
+
+type VerificationKey = JWTVerifyGetKey | CryptoKey
+
+let verificationKey: Promise<VerificationKey> | null = null
+
+/**
+ * Error raised when a bearer token is rejected
+ * Anything else thrown while verifying a token is a server-side problem,
+ * such as a missing or malformed verification key.
+ */
+export class BearerTokenError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message)
+    this.name = 'BearerTokenError'
+  }
+}
+
+/**
+ * Algorithms accepted for bearer tokens (JWT_ALGORITHMS, default RS256)
+ */
+function getAlgorithms(): string[] {
+  return (process.env.JWT_ALGORITHMS || 'RS256').split(',').map(alg => alg.trim()).filter(Boolean)
+}
+
+/**
+ * Checks whether JWT bearer authentication is configured
+ */
+export function isJwtConfigured(): boolean {
+  return !!(process.env.JWT_JWKS_FILE || process.env.JWT_PUBLIC_KEY || process.env.JWT_PUBLIC_KEY_FILE)
+}
+
+/**
+ * Load the signature verification key
+ * A JWKS file (JWT_JWKS_FILE) takes precedence over a PEM public key
+ * (JWT_PUBLIC_KEY or JWT_PUBLIC_KEY_FILE).
+ */
+async function loadVerificationKey(): Promise<VerificationKey> {
+  if (process.env.JWT_JWKS_FILE) {
+    const jwks = JSON.parse(readFileSync(process.env.JWT_JWKS_FILE, 'utf-8'))
+    return createLocalJWKSet(jwks)
+  }
+
+  const pem = process.env.JWT_PUBLIC_KEY_FILE
+    ? readFileSync(process.env.JWT_PUBLIC_KEY_FILE, 'utf-8')
+    : (process.env.JWT_PUBLIC_KEY || '').replace(/\\n/g, '\n')
+
+  return importSPKI(pem, getAlgorithms()[0])
+}
+
+/**
+ * Get the cached verification key, loading it on first use
+ */
+function getVerificationKey(): Promise<VerificationKey> {
+  if (!verificationKey) {
+    verificationKey = loadVerificationKey()
+    // Allow a retry if the key file was missing or malformed
+    verificationKey.catch(() => { verificationKey = null })
+  }
+  return verificationKey
+}
+
+/**
+ * Reads scopes from the configured claim (JWT_SCOPE_CLAIM, default `scope`)
+ * Accepts either a space-delimited string (OAuth style) or an array of strings.
+ */
+function getScopesFromClaims(payload: JWTPayload): string[] {
+  const claim = payload[process.env.JWT_SCOPE_CLAIM || 'scope']
+
+  if (typeof claim === 'string') {
+    return claim.split(' ').filter(Boolean)
+  }
+
+  if (Array.isArray(claim)) {
+    return claim.filter((scope): scope is string => typeof scope === 'string')
+  }
+
+  return []
+}
+
+/**
+ * Verifies a bearer token and builds the caller's principal
+ * Checks the signature, exp and nbf, plus iss/aud when JWT_ISSUER/JWT_AUDIENCE are set.
+ * @param token The raw JWT from the Authorization header
+ * @returns The normalized principal
+ * @throws BearerTokenError when the token is invalid, with the jose error code (ERR_JWT_EXPIRED, ...)
+ */
+export async function verifyBearerToken(token: string): Promise<Principal> {
+  const key = await getVerificationKey()
+  const options = {
+    algorithms: getAlgorithms(),
+    issuer: process.env.JWT_ISSUER || undefined,
+    audience: process.env.JWT_AUDIENCE ? process.env.JWT_AUDIENCE.split(',') : undefined,
+    clockTolerance: parseInt(process.env.JWT_CLOCK_TOLERANCE_SECONDS || '30')
+  }
+
+  let payload: JWTPayload
+  try {
+    ({ payload } = await jwtVerify(token, key, options))
+  } catch (error) {
+    if (error instanceof errors.JOSEError) {
+      throw new BearerTokenError(error.message, error.code)
+    }
+    throw error
+  }
+
+  return {
+    type: 'jwt',
+    name: payload.sub || 'unknown',
+    owner: payload.iss || 'unknown',
+    scopes: getScopesFromClaims(payload)
+  }
+}
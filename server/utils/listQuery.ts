@@ -0,0 +1,208 @@
+/**
+ * List Query Parameters
+ * Declares the query-string filters, sort fields and pagination a list
+ * endpoint accepts and applies them to a SelectQuery, so list routes share
+ * validation and compile their SQL for whichever database they run against.
+ */
+
+import { createError } from 'h3'
+import { parseKeysetCursor, QueryBuilderError, type SelectQuery } from './databases/queryBuilder'
+
+/**
+ * How a query-string parameter filters a column
+ * - exact: column = value
+ * - contains: column LIKE %value%
+ * - from / to: column >= value / column <= value
+ */
+export interface FieldFilter {
+  column: string
+  match: 'exact' | 'contains' | 'from' | 'to'
+  // Validate and bind the value as a number or Date instead of a string
+  parse?: 'number' | 'date'
+  // SQL type to declare for the parameter (see TypedParameter)
+  type?: string
+}
+
+/**
+ * Filters keyed by query-string parameter name
+ */
+export type FieldFilters = Record<string, FieldFilter>
+
+const MATCH_OPERATORS = {
+  exact: '=',
+  contains: 'like',
+  from: '>=',
+  to: '<='
+} as const
+
+function parseFilterValue(name: string, raw: string, filter: FieldFilter): unknown {
+  if (filter.parse === 'date') {
+    const date = new Date(raw)
+    if (isNaN(date.getTime())) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid ${name} format: '${raw}'. Use formats like '2025-09-21' or '2025-09-21T10:30:00Z'`
+      })
+    }
+    return date
+  }
+
+  if (filter.parse === 'number') {
+    const number = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(number)) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid ${name} parameter: '${raw}'. Must be a number`
+      })
+    }
+    return number
+  }
+
+  return raw
+}
+
+/**
+ * Adds a condition for every filter present in the query string
+ * @throws 400 for values that do not parse
+ */
+export function applyFilters(query: SelectQuery, params: Record<string, any>, filters: FieldFilters): void {
+  for (const [name, filter] of Object.entries(filters)) {
+    if (!params[name]) {
+      continue
+    }
+
+    let value = parseFilterValue(name, String(params[name]), filter)
+    if (filter.match === 'contains') {
+      value = `%${value}%`
+    }
+
+    query.where(filter.column, MATCH_OPERATORS[filter.match], filter.type ? { value, type: filter.type } : value)
+  }
+}
+
+/**
+ * Applies a `sort` parameter such as `clientName` or `-callTime,recId`
+ * A leading `-` sorts descending.
+ * @param sortable Columns that may be sorted on, keyed by API field name
+ * @param fallback Ordering used when no `sort` is given
+ * @param unique A unique column appended (descending) when the sort does not
+ *   include it, so rows with equal sort values keep a stable order across pages
+ * @throws 400 for fields that are not sortable
+ */
+export function applySort(
+  query: SelectQuery,
+  sort: unknown,
+  sortable: Record<string, string>,
+  fallback: string,
+  unique?: string
+): void {
+  const fields = String(sort || fallback).split(',').map(field => field.trim()).filter(Boolean)
+
+  for (const field of fields) {
+    const descending = field.startsWith('-')
+    const name = descending ? field.slice(1) : field
+    if (!Object.hasOwn(sortable, name)) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid sort field: '${name}'. Sortable fields are ${Object.keys(sortable).join(', ')}`
+      })
+    }
+    query.orderBy(sortable[name], descending ? 'desc' : 'asc')
+  }
+
+  if (unique && !query.orderColumns.includes(unique)) {
+    query.orderBy(unique, 'desc')
+  }
+}
+
+/**
+ * Validated pagination parameters
+ */
+export interface Pagination {
+  limit?: number
+  offset: number
+  cursor?: Record<string, unknown>
+}
+
+/**
+ * Reads `limit`, `offset` and `cursor` from the query string
+ * `cursor` (keyset pagination) and `offset` cannot be combined.
+ * @param options.defaultLimit Limit when none is given (unlimited if omitted)
+ * @param options.maxLimit Largest limit accepted
+ * @throws 400 for invalid values
+ */
+export function parsePagination(
+  params: Record<string, any>,
+  options: { defaultLimit?: number; maxLimit: number }
+): Pagination {
+  const pagination: Pagination = { limit: options.defaultLimit, offset: 0 }
+
+  if (params.limit) {
+    const parsedLimit = parseInt(params.limit as string)
+    if (isNaN(parsedLimit) || parsedLimit <= 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid limit parameter: '${params.limit}'. Must be a positive integer between 1 and ${options.maxLimit}`
+      })
+    }
+    if (parsedLimit > options.maxLimit) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Limit parameter too large: ${parsedLimit}. Maximum allowed is ${options.maxLimit}`
+      })
+    }
+    pagination.limit = parsedLimit
+  }
+
+  if (params.offset) {
+    const parsedOffset = parseInt(params.offset as string)
+    if (isNaN(parsedOffset) || parsedOffset < 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid offset parameter: '${params.offset}'. Must be a non-negative integer`
+      })
+    }
+    pagination.offset = parsedOffset
+  }
+
+  if (params.cursor) {
+    if (pagination.offset > 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'The cursor and offset parameters cannot be combined'
+      })
+    }
+    try {
+      pagination.cursor = parseKeysetCursor(String(params.cursor))
+    } catch (error) {
+      throw invalidListQuery(error)
+    }
+  }
+
+  return pagination
+}
+
+/**
+ * Applies parsed pagination to a query whose ordering is already set
+ * @throws 400 if the cursor does not match the ordering
+ */
+export function applyPagination(query: SelectQuery, pagination: Pagination): void {
+  try {
+    if (pagination.limit !== undefined) {
+      query.limit(pagination.limit)
+    }
+    query.offset(pagination.offset)
+    if (pagination.cursor) {
+      query.after(pagination.cursor)
+    }
+  } catch (error) {
+    throw invalidListQuery(error)
+  }
+}
+
+function invalidListQuery(error: unknown) {
+  if (error instanceof QueryBuilderError) {
+    return createError({ statusCode: 400, statusMessage: error.message })
+  }
+  return error
+}
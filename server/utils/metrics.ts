@@ -0,0 +1,201 @@
+/**
+ * Metrics Utility
+ * HTTP request metrics and the Prometheus page served at /api/metrics, which
+ * gathers them with the database query metrics, pool and circuit breaker
+ * state, database health, query cache counters and build info.
+ */
+
+import type { BlockList } from 'net'
+import type { H3Event } from 'h3'
+import {
+  db,
+  getQueryMetrics,
+  getQueryCacheStats,
+  createDurationHistogram,
+  observeDuration,
+  QUERY_DURATION_BUCKETS_MS,
+  type ConnectionStats,
+  type CircuitState,
+  type DurationHistogram
+} from './databases'
+import { getVersionInfo } from './version'
+import { createCidrMatcher, matchesCidr } from './ipRules'
+import { PrometheusWriter, type Labels } from './prometheus'
+
+// Route label for requests that never reached a route handler (rejected by
+// the auth or rate limit middleware, or no such route)
+const UNMATCHED_ROUTE = 'unmatched'
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open']
+
+interface HttpSeries {
+  method: string
+  route: string
+  status: number
+  histogram: DurationHistogram
+}
+
+const httpSeries: Map<string, HttpSeries> = new Map()
+let metricsAddresses: BlockList | null = null
+
+/**
+ * Get the route label for a request: the route pattern, e.g.
+ * /api/is/clients/:cltId, so ids do not create a series each
+ */
+export function getRouteLabel(event: H3Event): string {
+  return event.context.matchedRoute?.path ?? UNMATCHED_ROUTE
+}
+
+/**
+ * Count a finished request
+ */
+export function recordHttpRequest(method: string, route: string, status: number, durationMs: number): void {
+  const key = `${method} ${route} ${status}`
+  let series = httpSeries.get(key)
+  if (!series) {
+    series = { method, route, status, histogram: createDurationHistogram() }
+    httpSeries.set(key, series)
+  }
+  observeDuration(series.histogram, durationMs)
+}
+
+/**
+ * Checks whether an address may read /api/metrics without credentials
+ * Allowed ranges come from METRICS_ALLOWED_IPS (comma-separated CIDRs);
+ * without it every caller needs the `metrics:read` scope.
+ */
+export function isMetricsAddressAllowed(address: string | undefined): boolean {
+  if (!address) {
+    return false
+  }
+
+  if (!metricsAddresses) {
+    const cidrs = (process.env.METRICS_ALLOWED_IPS || '').split(',').map(cidr => cidr.trim()).filter(Boolean)
+    metricsAddresses = createCidrMatcher(cidrs)
+  }
+
+  return matchesCidr(metricsAddresses, address)
+}
+
+/**
+ * Render every metric in the Prometheus text format
+ * Tests each enabled database, in parallel, for au_api_db_up.
+ */
+export async function renderMetrics(): Promise<string> {
+  const writer = new PrometheusWriter()
+
+  // Health first, so pools it connects show up below
+  writeBuildInfo(writer)
+  await writeHealthMetrics(writer)
+  writeHttpMetrics(writer)
+  writeQueryMetrics(writer)
+  writePoolMetrics(writer)
+  writeCacheMetrics(writer)
+
+  return writer.toString()
+}
+
+function writeBuildInfo(writer: PrometheusWriter): void {
+  const info = getVersionInfo()
+
+  writer.metric('au_api_build_info', 'gauge', 'Build information; always 1', [{
+    labels: {
+      name: info.name,
+      version: info.version,
+      build_date: info.buildDate,
+      node_version: info.nodeVersion,
+      environment: info.environment
+    },
+    value: 1
+  }])
+}
+
+function writeHttpMetrics(writer: PrometheusWriter): void {
+  const series = Array.from(httpSeries.values()).map(({ method, route, status, histogram }) => ({
+    labels: { method, route, status },
+    histogram
+  }))
+
+  writer.metric('au_api_http_requests_total', 'counter', 'HTTP requests to /api by route and status',
+    series.map(({ labels, histogram }) => ({ labels, value: histogram.count })))
+  writer.histogram('au_api_http_request_duration_seconds', 'HTTP request duration by route and status',
+    QUERY_DURATION_BUCKETS_MS, series)
+}
+
+function writeQueryMetrics(writer: PrometheusWriter): void {
+  const metrics = Object.entries(getQueryMetrics())
+
+  writer.histogram('au_api_db_query_duration_seconds', 'Database query duration by database and outcome',
+    QUERY_DURATION_BUCKETS_MS,
+    metrics.flatMap(([database, entry]) => (['success', 'error'] as const).map(outcome => ({
+      labels: { database, outcome },
+      histogram: entry.durations[outcome]
+    }))))
+  writer.metric('au_api_db_queries_total', 'counter', 'Database queries by kind (query, stream, execute)',
+    metrics.flatMap(([database, entry]) => Object.entries(entry.byKind).map(([kind, value]) => ({
+      labels: { database, kind },
+      value
+    }))))
+  writer.metric('au_api_db_slow_queries_total', 'counter', 'Database queries slower than DB_SLOW_QUERY_MS',
+    metrics.map(([database, entry]) => ({ labels: { database }, value: entry.slowQueries })))
+  writer.metric('au_api_db_rows_total', 'counter', 'Rows returned or affected by database queries',
+    metrics.map(([database, entry]) => ({ labels: { database }, value: entry.rows })))
+  writer.metric('au_api_db_connection_events_total', 'counter', 'Database connects, disconnects and connection errors',
+    metrics.flatMap(([database, entry]) => [
+      { labels: { database, event: 'connect' }, value: entry.connects },
+      { labels: { database, event: 'disconnect' }, value: entry.disconnects },
+      { labels: { database, event: 'error' }, value: entry.connectionErrors }
+    ]))
+}
+
+function writePoolMetrics(writer: PrometheusWriter): void {
+  // Primary pools, then each read replica's under a `replica` label
+  const pools: Array<{ labels: Labels, stats: ConnectionStats }> = Object.entries(db.getStats() as Record<string, ConnectionStats>)
+    .flatMap(([database, stats]) => [
+      { labels: { database }, stats },
+      ...Object.entries(stats.replicas ?? {}).map(([replica, replicaStats]) => ({ labels: { database, replica }, stats: replicaStats }))
+    ])
+
+  writer.metric('au_api_db_pool_connections', 'gauge', 'Pool connections by state (active, idle, waiting callers)',
+    pools.flatMap(({ labels, stats }) => [
+      { labels: { ...labels, state: 'active' }, value: stats.active },
+      { labels: { ...labels, state: 'idle' }, value: stats.idle },
+      { labels: { ...labels, state: 'waiting' }, value: stats.waiting ?? 0 }
+    ]))
+  writer.metric('au_api_db_pool_max_connections', 'gauge', 'Pool size limit',
+    pools.filter(({ stats }) => stats.max !== undefined).map(({ labels, stats }) => ({ labels, value: stats.max! })))
+  writer.metric('au_api_db_pool_acquires_total', 'counter', 'Connections handed out by the pool',
+    pools.map(({ labels, stats }) => ({ labels, value: stats.counters?.acquires ?? 0 })))
+  writer.metric('au_api_db_pool_acquire_wait_seconds_total', 'counter', 'Time spent waiting for a pooled connection',
+    pools.map(({ labels, stats }) => ({ labels, value: (stats.counters?.acquireWaitMs ?? 0) / 1000 })))
+  writer.metric('au_api_db_query_timeouts_total', 'counter', 'Database queries that timed out',
+    pools.map(({ labels, stats }) => ({ labels, value: stats.counters?.timeouts ?? 0 })))
+}
+
+async function writeHealthMetrics(writer: PrometheusWriter): Promise<void> {
+  const databases = db.getRegisteredDatabases().filter(name => db.isEnabled(name))
+  const healthy = await Promise.all(databases.map(name => db.testConnection(name)))
+  const circuits = Object.entries(db.getCircuitStates())
+
+  writer.metric('au_api_db_up', 'gauge', 'Whether the database answered a test query (1) or not (0)',
+    databases.map((database, index) => ({ labels: { database }, value: healthy[index] ? 1 : 0 })))
+  writer.metric('au_api_db_circuit_state', 'gauge', 'Circuit breaker state; 1 for the current state',
+    circuits.flatMap(([database, circuit]) => CIRCUIT_STATES.map(state => ({
+      labels: { database, state },
+      value: circuit.state === state ? 1 : 0
+    }))))
+  writer.metric('au_api_db_circuit_consecutive_failures', 'gauge', 'Consecutive failures counted by the circuit breaker',
+    circuits.map(([database, circuit]) => ({ labels: { database }, value: circuit.consecutiveFailures })))
+}
+
+function writeCacheMetrics(writer: PrometheusWriter): void {
+  const cache = getQueryCacheStats()
+  const databases = Object.entries(cache.databases)
+
+  writer.metric('au_api_query_cache_entries', 'gauge', 'Entries in the query cache',
+    cache.entries === null ? [] : [{ value: cache.entries }])
+  writer.metric('au_api_query_cache_hits_total', 'counter', 'Queries served from the query cache',
+    databases.map(([database, counter]) => ({ labels: { database }, value: counter.hits })))
+  writer.metric('au_api_query_cache_misses_total', 'counter', 'Cacheable queries sent to the database',
+    databases.map(([database, counter]) => ({ labels: { database }, value: counter.misses })))
+}
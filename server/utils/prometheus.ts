@@ -0,0 +1,80 @@
+/**
+ * Prometheus Text Format Utility
+ * Writes metrics in the Prometheus text exposition format (version 0.0.4).
+ * Durations are kept in milliseconds internally and exposed in seconds, as
+ * Prometheus expects.
+ */
+
+import type { DurationHistogram } from './databases'
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+export type Labels = Record<string, string | number | undefined>
+
+/**
+ * Builds a metrics page one metric family at a time
+ */
+export class PrometheusWriter {
+  private lines: string[] = []
+
+  /**
+   * Write a counter or gauge with one sample per label set
+   */
+  metric(name: string, type: Exclude<MetricType, 'histogram'>, help: string, samples: Array<{ labels?: Labels, value: number }>): this {
+    this.header(name, type, help)
+    for (const sample of samples) {
+      this.sample(name, sample.labels, sample.value)
+    }
+    return this
+  }
+
+  /**
+   * Write a histogram of millisecond durations in seconds
+   * @param boundsMs The histogram's bucket upper bounds, in milliseconds
+   */
+  histogram(name: string, help: string, boundsMs: number[], series: Array<{ labels?: Labels, histogram: DurationHistogram }>): this {
+    this.header(name, 'histogram', help)
+    for (const { labels, histogram } of series) {
+      boundsMs.forEach((bound, index) => {
+        this.sample(`${name}_bucket`, { ...labels, le: bound / 1000 }, histogram.buckets[index])
+      })
+      this.sample(`${name}_bucket`, { ...labels, le: '+Inf' }, histogram.count)
+      this.sample(`${name}_sum`, labels, histogram.sumMs / 1000)
+      this.sample(`${name}_count`, labels, histogram.count)
+    }
+    return this
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n'
+  }
+
+  private header(name: string, type: MetricType, help: string): void {
+    this.lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+    this.lines.push(`# TYPE ${name} ${type}`)
+  }
+
+  private sample(name: string, labels: Labels | undefined, value: number): void {
+    const pairs = Object.entries(labels ?? {})
+      .filter(([, labelValue]) => labelValue !== undefined)
+      .map(([label, labelValue]) => `${label}="${escapeLabelValue(String(labelValue))}"`)
+
+    this.lines.push(`${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`)
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN'
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf'
+  }
+  return String(value)
+}
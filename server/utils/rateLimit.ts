@@ -0,0 +1,195 @@
+/**
+ * Rate Limiting Utility
+ * Token-bucket rate limits and in-flight request caps per caller and route group.
+ * State lives in a pluggable RateLimitStore; the default is in-memory and
+ * therefore per instance.
+ */
+
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import consola from 'consola'
+
+/**
+ * Limits applied to one route group
+ */
+const rateLimitSchema = z.object({
+  capacity: z.number().int().positive(),          // Bucket size (burst)
+  refillPerSecond: z.number().positive(),         // Sustained requests per second
+  maxConcurrent: z.number().int().positive()      // In-flight requests
+})
+
+/**
+ * A route group - requests whose path starts with `prefix` share its limits
+ */
+const routeGroupSchema = rateLimitSchema.extend({
+  name: z.string().min(1),
+  prefix: z.string().startsWith('/')
+})
+
+const rateLimitConfigSchema = z.object({
+  groups: z.array(routeGroupSchema)
+})
+
+export type RateLimit = z.infer<typeof rateLimitSchema>
+export type RouteGroup = z.infer<typeof routeGroupSchema>
+
+/**
+ * Per-key overrides, keyed by route group name
+ */
+export const rateLimitOverridesSchema = z.record(z.string(), rateLimitSchema.partial())
+export type RateLimitOverrides = z.infer<typeof rateLimitOverridesSchema>
+
+/**
+ * Default route groups
+ * The logger group is deliberately tight: its pool only holds 5 connections.
+ */
+const DEFAULT_GROUPS: RouteGroup[] = [
+  { name: 'logger', prefix: '/api/logger', capacity: 30, refillPerSecond: 0.5, maxConcurrent: 2 },
+  { name: 'is', prefix: '/api/is', capacity: 120, refillPerSecond: 2, maxConcurrent: 4 },
+  { name: 'default', prefix: '/api', capacity: 120, refillPerSecond: 2, maxConcurrent: 5 }
+]
+
+/**
+ * Result of taking a token from a bucket
+ */
+export interface TokenBucketResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number    // Time until a token is available (0 when allowed)
+  resetMs: number         // Time until the bucket is full again
+}
+
+/**
+ * Storage backend for rate limit state
+ * Implement this to share limits across instances (e.g. Redis).
+ */
+export interface RateLimitStore {
+  take(key: string, limit: RateLimit): Promise<TokenBucketResult>
+  acquire(key: string, maxConcurrent: number): Promise<boolean>
+  release(key: string): Promise<void>
+}
+
+/**
+ * In-memory rate limit store for a single instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number, updatedAt: number }> = new Map()
+  private inFlight: Map<string, number> = new Map()
+
+  async take(key: string, limit: RateLimit): Promise<TokenBucketResult> {
+    const now = Date.now()
+    const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now }
+
+    // Refill for the time elapsed since the last request
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond)
+    bucket.updatedAt = now
+
+    const allowed = bucket.tokens >= 1
+    if (allowed) {
+      bucket.tokens -= 1
+    }
+    this.buckets.set(key, bucket)
+
+    return {
+      allowed,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil(((1 - bucket.tokens) / limit.refillPerSecond) * 1000),
+      resetMs: Math.ceil(((limit.capacity - bucket.tokens) / limit.refillPerSecond) * 1000)
+    }
+  }
+
+  async acquire(key: string, maxConcurrent: number): Promise<boolean> {
+    const current = this.inFlight.get(key) || 0
+    if (current >= maxConcurrent) {
+      return false
+    }
+    this.inFlight.set(key, current + 1)
+    return true
+  }
+
+  async release(key: string): Promise<void> {
+    const current = this.inFlight.get(key) || 0
+    if (current <= 1) {
+      this.inFlight.delete(key)
+    } else {
+      this.inFlight.set(key, current - 1)
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+let routeGroups: RouteGroup[] | null = null
+
+/**
+ * Replace the rate limit store (e.g. with a shared backend)
+ */
+export function setRateLimitStore(newStore: RateLimitStore): void {
+  store = newStore
+}
+
+/**
+ * Get the active rate limit store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return store
+}
+
+/**
+ * Checks if rate limiting is enabled (RATE_LIMIT_ENABLED, default true)
+ */
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== 'false'
+}
+
+/**
+ * Load route groups from RATE_LIMITS_FILE or RATE_LIMITS (JSON), or use the defaults
+ * Groups are matched longest prefix first.
+ */
+export function getRouteGroups(): RouteGroup[] {
+  if (routeGroups) {
+    return routeGroups
+  }
+
+  let raw: string | undefined
+  if (process.env.RATE_LIMITS_FILE) {
+    raw = readFileSync(process.env.RATE_LIMITS_FILE, 'utf-8')
+  } else if (process.env.RATE_LIMITS) {
+    raw = process.env.RATE_LIMITS
+  }
+
+  let groups = DEFAULT_GROUPS
+  if (raw) {
+    const validation = rateLimitConfigSchema.safeParse(JSON.parse(raw))
+    if (!validation.success) {
+      const problems = validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      throw new Error(`Invalid rate limit configuration: ${problems.join('; ')}`)
+    }
+    groups = validation.data.groups
+    consola.info(`Rate limits: loaded ${groups.length} route group(s)`)
+  }
+
+  routeGroups = [...groups].sort((a, b) => b.prefix.length - a.prefix.length)
+  return routeGroups
+}
+
+/**
+ * Find the route group for a request path
+ */
+export function findRouteGroup(pathname: string): RouteGroup | undefined {
+  return getRouteGroups().find(group =>
+    pathname === group.prefix || pathname.startsWith(group.prefix.endsWith('/') ? group.prefix : `${group.prefix}/`)
+  )
+}
+
+/**
+ * Resolve a group's limits for a caller, applying any per-key overrides
+ */
+export function resolveRateLimit(group: RouteGroup, overrides?: RateLimitOverrides): RateLimit {
+  const override = overrides?.[group.name] || {}
+  return {
+    capacity: override.capacity ?? group.capacity,
+    refillPerSecond: override.refillPerSecond ?? group.refillPerSecond,
+    maxConcurrent: override.maxConcurrent ?? group.maxConcurrent
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Request Abort Signal
+ * An AbortSignal that fires when the HTTP client disconnects before the
+ * response has been sent. Pass it to database queries so abandoned requests
+ * stop their statements on the server instead of running to completion.
+ */
+
+import type { H3Event } from 'h3'
+import type { QueryOptions } from './databases'
+
+const signals = new WeakMap<H3Event, AbortSignal>()
+
+/**
+ * Get the abort signal for a request
+ * The same signal is returned for every call during a request.
+ */
+export function getRequestSignal(event: H3Event): AbortSignal {
+  let signal = signals.get(event)
+  if (signal) {
+    return signal
+  }
+
+  const controller = new AbortController()
+  const { res } = event.node
+
+  // The response closes when the socket does; if it has not finished by then,
+  // the client went away
+  res.once('close', () => {
+    if (!res.writableFinished) {
+      controller.abort()
+    }
+  })
+
+  signal = controller.signal
+  signals.set(event, signal)
+  return signal
+}
+
+/**
+ * Query options for a query run on behalf of a request
+ * Carries the abort signal, and the request path so databases with
+ * `replicaRoutes` can send the route's reads to a replica.
+ */
+export function getRequestQueryOptions(event: H3Event): QueryOptions {
+  return {
+    signal: getRequestSignal(event),
+    route: event.path.split('?')[0]
+  }
+}
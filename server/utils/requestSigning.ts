@@ -0,0 +1,178 @@
+/**
+ * HMAC Request Signing
+ * Server-to-server callers can sign each request instead of sending their
+ * static key. A signature covers the method, path, sorted query, body hash,
+ * timestamp and nonce, so a sniffed request cannot be replayed or altered.
+ *
+ * Headers:
+ *   X-Signature-Key        API key name from the registry
+ *   X-Signature-Timestamp  Unix time in seconds
+ *   X-Signature-Nonce      Unique value per request
+ *   X-Signature            Hex HMAC-SHA256 of the canonical request
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import { getRequestHeader, getRequestURL, readRawBody, type H3Event } from 'h3'
+import { getApiKeyRegistry, isApiKeyActive, recordApiKeyUsage, type ApiKey } from './auth'
+
+/**
+ * Storage for nonces seen inside the clock-skew window
+ * Implement this to share replay protection across instances.
+ */
+export interface NonceStore {
+  /**
+   * Records a nonce, returning false if it was already seen
+   */
+  remember(nonce: string, ttlMs: number): Promise<boolean>
+}
+
+/**
+ * In-memory nonce store for a single instance
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces: Map<string, number> = new Map()
+  private lastSweep = Date.now()
+
+  async remember(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now()
+
+    // Drop expired nonces at most once per second
+    if (now - this.lastSweep > 1000) {
+      for (const [key, expiresAt] of this.nonces.entries()) {
+        if (expiresAt <= now) {
+          this.nonces.delete(key)
+        }
+      }
+      this.lastSweep = now
+    }
+
+    const expiresAt = this.nonces.get(nonce)
+    if (expiresAt && expiresAt > now) {
+      return false
+    }
+
+    this.nonces.set(nonce, now + ttlMs)
+    return true
+  }
+}
+
+let nonceStore: NonceStore = new MemoryNonceStore()
+
+// Methods whose body is read and hashed; h3 refuses to read a body for others
+const PAYLOAD_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Replace the nonce store (e.g. with a shared backend)
+ */
+export function setNonceStore(store: NonceStore): void {
+  nonceStore = store
+}
+
+/**
+ * Error raised when a signed request is rejected
+ */
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SignatureError'
+  }
+}
+
+/**
+ * Allowed difference between the caller's and our clock (HMAC_CLOCK_SKEW_SECONDS, default 300)
+ */
+function getClockSkewSeconds(): number {
+  return parseInt(process.env.HMAC_CLOCK_SKEW_SECONDS || '300')
+}
+
+/**
+ * Checks whether a request carries a signature
+ */
+export function isSignedRequest(event: H3Event): boolean {
+  return !!getRequestHeader(event, 'x-signature')
+}
+
+/**
+ * Builds the canonical query string: parameters sorted by name then value, RFC 3986 encoded
+ */
+export function canonicalQuery(search: string): string {
+  const params = Array.from(new URLSearchParams(search).entries())
+  params.sort(([aKey, aValue], [bKey, bValue]) =>
+    aKey === bKey ? (aValue < bValue ? -1 : aValue > bValue ? 1 : 0) : (aKey < bKey ? -1 : 1)
+  )
+
+  return params.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&')
+}
+
+/**
+ * Builds the string that is signed
+ * METHOD \n path \n canonical query \n sha256(body) hex \n timestamp \n nonce
+ */
+export function canonicalRequest(
+  method: string,
+  path: string,
+  search: string,
+  body: string | Buffer | undefined,
+  timestamp: string,
+  nonce: string
+): string {
+  const bodyHash = createHash('sha256').update(body || '').digest('hex')
+  return [method.toUpperCase(), path, canonicalQuery(search), bodyHash, timestamp, nonce].join('\n')
+}
+
+/**
+ * Get the signing secret for a key from the environment variable it names
+ */
+function getSigningSecret(apiKey: ApiKey): string | undefined {
+  return apiKey.signingSecretEnv ? process.env[apiKey.signingSecretEnv] : undefined
+}
+
+/**
+ * Verifies a signed request
+ * @returns The registry entry that signed the request
+ * @throws SignatureError describing why the request was rejected
+ */
+export async function verifySignedRequest(event: H3Event): Promise<ApiKey> {
+  const keyName = getRequestHeader(event, 'x-signature-key')
+  const timestamp = getRequestHeader(event, 'x-signature-timestamp')
+  const nonce = getRequestHeader(event, 'x-signature-nonce')
+  const signature = getRequestHeader(event, 'x-signature')
+
+  if (!keyName || !timestamp || !nonce || !signature) {
+    throw new SignatureError('Signed requests need X-Signature-Key, X-Signature-Timestamp, X-Signature-Nonce and X-Signature')
+  }
+
+  const apiKey = (await getApiKeyRegistry()).find(key => key.name === keyName)
+  const secret = apiKey && isApiKeyActive(apiKey) && getSigningSecret(apiKey)
+  if (!apiKey || !secret) {
+    throw new SignatureError('Unknown signing key')
+  }
+
+  // Reject requests outside the clock-skew window
+  const skew = getClockSkewSeconds()
+  const signedAt = Number(timestamp)
+  if (!Number.isInteger(signedAt) || Math.abs(Date.now() / 1000 - signedAt) > skew) {
+    throw new SignatureError('Request timestamp outside allowed clock skew')
+  }
+
+  const url = getRequestURL(event)
+  const body = PAYLOAD_METHODS.includes(event.method) ? await readRawBody(event, false) : undefined
+  const expected = createHmac('sha256', secret)
+    .update(canonicalRequest(event.method, url.pathname, url.search, body, timestamp, nonce))
+    .digest()
+
+  const provided = Buffer.from(signature, 'hex')
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new SignatureError('Invalid signature')
+  }
+
+  // Only remember nonces of valid signatures so junk cannot fill the store.
+  // Nonces only need to outlive the window in which the timestamp is accepted.
+  const fresh = await nonceStore.remember(`${apiKey.name}:${nonce}`, skew * 2 * 1000)
+  if (!fresh) {
+    throw new SignatureError('Replayed nonce')
+  }
+
+  recordApiKeyUsage(apiKey)
+  return apiKey
+}
@@ -0,0 +1,77 @@
+/**
+ * Row Export Formats
+ * Serializes streamed rows as NDJSON or CSV one row at a time, so exports of
+ * any size run in constant memory.
+ */
+
+export const EXPORT_FORMATS = {
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' }
+} as const
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.hasOwn(EXPORT_FORMATS, value)
+}
+
+/**
+ * Starts reading rows before the response is sent
+ * Waiting for the first row means a failing query can still be answered with
+ * an HTTP error status. The returned generator yields every row, including
+ * the first, and stops the query if the consumer stops early.
+ */
+export async function startRows<T>(rows: AsyncIterable<T>): Promise<AsyncGenerator<T>> {
+  const iterator = rows[Symbol.asyncIterator]()
+  const first = await iterator.next()
+
+  return (async function* () {
+    let next = first
+    try {
+      while (!next.done) {
+        yield next.value
+        next = await iterator.next()
+      }
+    } finally {
+      if (!next.done) {
+        await iterator.return?.()
+      }
+    }
+  })()
+}
+
+/**
+ * Formats a single CSV field, quoting when needed
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows in the requested format
+ * CSV takes its header from the first row's keys.
+ */
+export async function* serializeRows(rows: AsyncIterable<Record<string, any>>, format: ExportFormat): AsyncGenerator<string> {
+  let columns: string[] | null = null
+
+  for await (const row of rows) {
+    if (format === 'ndjson') {
+      yield `${JSON.stringify(row)}\n`
+      continue
+    }
+
+    if (!columns) {
+      columns = Object.keys(row)
+      yield `${columns.map(csvField).join(',')}\r\n`
+    }
+    yield `${columns.map(column => csvField(row[column])).join(',')}\r\n`
+  }
+}
@@ -0,0 +1,10 @@
+create table dbo.api_keys
+(
+    name         varchar(100)  not null
+        constraint PK_api_keys
+            primary key,
+    definition   nvarchar(max) not null,
+    last_used_at datetime2,
+    updated_at   datetime2     not null
+)
+go
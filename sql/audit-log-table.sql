@@ -0,0 +1,26 @@
+create table dbo.api_audit_log
+(
+    id             bigint identity
+        constraint PK_api_audit_log
+            primary key,
+    stamp          datetime2     not null,
+    principal_type varchar(20),
+    principal_name varchar(255),
+    method         varchar(10)   not null,
+    route          varchar(500)  not null,
+    query_params   nvarchar(max),
+    result_count   int,
+    status         int           not null,
+    duration_ms    int           not null,
+    remote_address varchar(64),
+    reason         nvarchar(500)
+)
+go
+
+create index IX_api_audit_log_stamp
+    on dbo.api_audit_log (stamp)
+go
+
+create index IX_api_audit_log_principal_name
+    on dbo.api_audit_log (principal_name, stamp)
+go
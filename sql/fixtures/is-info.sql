@@ -0,0 +1,24 @@
+-- Sample IS clients for the SQLite database (see config/databases.local.yaml)
+-- Runs after sql/is-info-tables.sql. Datetimes are UTC text, 'YYYY-MM-DD HH:MM:SS'.
+
+-- Every NOT NULL column of dbo.cltClients needs a value; unused settings are 0 or ''
+insert into dbo.cltClients (cltId, Stamp, ClientNumber, ClientName, MesgResps, ScreenLayout, SaveDiscardedMessages, CheckinPending, Url, TimezoneOffset, LogVoice, PerfectAnswer, BillingCode, DefaultBehaviorType, AutoConnect, Emergency, DoneKeyCancelsScript, HangupRemovesWorkArea, TransferConfRemovesWorkArea, PciCompliance, OverrideOpLimit, AnnounceATTA, RepeatATTA, AnnounceCallsInQue, Skill, DontStartScriptOnFetch, ScreenCapture, MaxCallsFromDispatchJobs, SelectNextUndelMsgWhenDel, playQualityPrompt, loggerBeep, LoggerBeepInterval, AutoAnswerInterval, specialOldToNew, saveEditedSpecial, showSpecials, showInfos, DirectCheckin, DefaultCOS, VoiceMailMaxLength, VoiceMailPlayBeep, VoiceMailOldToNew, VoiceMailAnnounce, VoiceMailRevert, VmChgPasscode, VmChgGreeting, VoiceMailPrivate, VoiceMailAni, SecureVMTransfer, NewVmRunsMergecomm, ExcludeFromSurvey, VoiceMailMenu, VoiceMailGreetOptions, AnswerPhrase, LogWhenMessageViewed, DIDLimit, UseOrgClientForDIDLimit, ExemptFromSystemHoliday, RecordPatch)
+values
+    (101, '2025-01-15 09:00:00', 10001, 'Answer United Demo', '', '', 0, 0, '', 0, 0, 0, 'DEMO', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, '', 0, 0, 0, 0, 0),
+    (102, '2025-02-03 12:30:00', 10002, 'Northside Plumbing', '', '', 0, 0, '', 0, 0, 0, 'NSP', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, '', 0, 0, 0, 0, 0),
+    (103, '2025-03-21 16:45:00', 20001, 'Lakeview Medical Group', '', '', 0, 0, '', 0, 0, 0, 'LMG', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, '', 0, 0, 0, 0, 0);
+
+insert into dbo.cltInfo (infoId, Stamp, cltId, OrderId, [Index], Info)
+values
+    (1, '2025-01-15 09:05:00', 101, 1, 'Greeting', '<p>Thank you for calling Answer United, this is <span amtelco_nxt_field="CFld.Agent Name.501">[CFld.Agent Name.501]</span>.</p>'),
+    (2, '2025-01-15 09:06:00', 101, 2, 'Office hours', '<p>Open [CFld.Office Hours.502]. Emergencies go to [CFld.On Call.503].</p>'),
+    (3, '2025-02-03 12:35:00', 102, 1, 'Greeting', '<p>Northside Plumbing, how can I help?</p>'),
+    (4, '2025-03-21 16:50:00', 103, 1, 'Greeting', '<p>Lakeview Medical Group answering service.</p>'),
+    (5, '2025-03-21 16:51:00', 103, 2, 'Urgent calls', '<p>Page the doctor on call: [CFld.Pager.601]</p>');
+
+insert into dbo.dirListingFields (id, cltfieldID, cltID, Field, DataType)
+values
+    (1, 501, 101, 'Demo Agent', 0),
+    (2, 502, 101, 'Mon-Fri 8am-6pm ', 0),
+    (3, 503, 101, 'Jordan Lee, 555-0100', 0),
+    (4, 601, 103, '555-0199', 0);
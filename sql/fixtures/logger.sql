@@ -0,0 +1,43 @@
+-- Sample call log for the SQLite database (see config/databases.local.yaml)
+-- dbo.Calls has only the columns the API reads. Datetimes are UTC text,
+-- 'YYYY-MM-DD HH:MM:SS'.
+
+create table dbo.Calls
+(
+    RecID               int not null primary key,
+    CallNumber          varchar(50),
+    CallID              int,
+    CallTime            datetime,
+    CallDuration        int,
+    StationNumber       varchar(20),
+    Agent_old           varchar(50),
+    AgentInitials       varchar(10),
+    CallerID            varchar(50),
+    ClientName          varchar(255),
+    CallerName          varchar(255),
+    BillingNumber       varchar(50),
+    ClientNumber        varchar(20),
+    CallProgress        varchar(max),
+    Archived            bit,
+    Drive               varchar(10),
+    CombinedDuration    int,
+    Emailed             bit,
+    EndingClientNumber  varchar(20),
+    QAScore             int,
+    Location            varchar(255),
+    EndingClientName    varchar(255),
+    EndingBillingNumber varchar(50),
+    FinalClientNumber   varchar(20),
+    FinalClientName     varchar(255),
+    FinalBillingNumber  varchar(50),
+    EndTime             datetime,
+    Agent               varchar(50)
+);
+
+insert into dbo.Calls (RecID, CallNumber, CallID, CallTime, CallDuration, StationNumber, AgentInitials, CallerID, ClientName, CallerName, BillingNumber, ClientNumber, CallProgress, Archived, Emailed, EndTime, Agent)
+values
+    (1001, '5550100', 90001, '2025-09-01 14:02:10', 95, '12', 'JL', '5550100', 'Answer United Demo', 'Pat Morgan', 'DEMO', '10001', 'Answered; message taken', 0, 1, '2025-09-01 14:03:45', 'Jordan Lee'),
+    (1002, '5550133', 90002, '2025-09-01 15:20:00', 40, '14', 'AK', '5550133', 'Northside Plumbing', 'Sam Rivera', 'NSP', '10002', 'Answered; transferred to on call', 0, 0, '2025-09-01 15:20:40', 'Alex Kim'),
+    (1003, '5550188', 90003, '2025-09-02 08:45:30', 210, '12', 'JL', '5550188', 'Lakeview Medical Group', 'Chris Patel', 'LMG', '20001', 'Answered; doctor paged', 0, 1, '2025-09-02 08:49:00', 'Jordan Lee'),
+    (1004, '5550100', 90004, '2025-09-02 17:10:05', 30, '16', 'MB', '5550100', 'Answer United Demo', 'Pat Morgan', 'DEMO', '10001', 'Answered; caller hung up', 0, 0, '2025-09-02 17:10:35', 'Morgan Blake'),
+    (1005, '5550147', 90005, '2025-09-03 09:00:00', 120, '14', 'AK', '5550147', 'Lakeview Medical Group', 'Dana Cruz', 'LMG', '20001', 'Answered; appointment request', 1, 1, '2025-09-03 09:02:00', 'Alex Kim');
@@ -0,0 +1,2 @@
+drop table dbo.api_audit_log
+go
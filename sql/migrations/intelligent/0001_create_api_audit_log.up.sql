@@ -0,0 +1,31 @@
+-- Audit log for AUDIT_SINK=database (see sql/audit-log-table.sql)
+-- Guarded so databases that already have the table can adopt migrations
+if object_id('dbo.api_audit_log', 'U') is null
+create table dbo.api_audit_log
+(
+    id             bigint identity
+        constraint PK_api_audit_log
+            primary key,
+    stamp          datetime2     not null,
+    principal_type varchar(20),
+    principal_name varchar(255),
+    method         varchar(10)   not null,
+    route          varchar(500)  not null,
+    query_params   nvarchar(max),
+    result_count   int,
+    status         int           not null,
+    duration_ms    int           not null,
+    remote_address varchar(64),
+    reason         nvarchar(500)
+)
+go
+
+if not exists (select 1 from sys.indexes where name = 'IX_api_audit_log_stamp' and object_id = object_id('dbo.api_audit_log'))
+create index IX_api_audit_log_stamp
+    on dbo.api_audit_log (stamp)
+go
+
+if not exists (select 1 from sys.indexes where name = 'IX_api_audit_log_principal_name' and object_id = object_id('dbo.api_audit_log'))
+create index IX_api_audit_log_principal_name
+    on dbo.api_audit_log (principal_name, stamp)
+go
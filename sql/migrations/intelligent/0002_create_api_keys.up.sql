@@ -0,0 +1,13 @@
+-- Key store for API_KEYS_STORE=database (see sql/api-keys-table.sql)
+-- Guarded so databases that already have the table can adopt migrations
+if object_id('dbo.api_keys', 'U') is null
+create table dbo.api_keys
+(
+    name         varchar(100)  not null
+        constraint PK_api_keys
+            primary key,
+    definition   nvarchar(max) not null,
+    last_used_at datetime2,
+    updated_at   datetime2     not null
+)
+go